@@ -0,0 +1,214 @@
+import { ElementHandle, Page } from 'puppeteer';
+
+import { findElementByText, getMarkedElement } from './element-marks.js';
+import { config } from '../config.js';
+import { AIAction } from '../types/index.js';
+
+// Button and link texts the vision model may not click unless ACTION_DENY_PATTERNS says otherwise:
+// purchases, payments, subscriptions, account creation and destructive actions
+const DEFAULT_DENIED_TEXTS = [
+  'buy', 'buy now', 'purchase', 'checkout', 'check out', 'place order', 'order now', 'complete order', 'pay', 'pay now',
+  'add to cart', 'add to basket', 'add to bag', 'subscribe', 'upgrade', 'start trial', 'free trial', 'donate',
+  'sign up', 'register', 'create account', 'delete', 'remove account', 'unsubscribe', 'confirm payment',
+  'kaufen', 'jetzt kaufen', 'bestellen', 'zur kasse', 'abonnieren', 'acheter', 'commander', "s'abonner", 'comprar', 'suscribirse',
+];
+
+// Frames of payment providers, whose fields are always off limits
+const PAYMENT_FRAME_PATTERN = /(^|\.)(stripe\.com|stripe\.network|braintreegateway\.com|adyen\.com|paypal\.com|checkout\.com|klarna\.com|squareup\.com)$/i;
+
+// Numbers that look like payment card numbers, with optional spaces or dashes
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/;
+
+/**
+ * Checks an action proposed by the vision model against the action policy: no typing into password, one-time code
+ * or payment fields, no card numbers, no clicks on denied texts such as "Buy" or "Subscribe", and no links or
+ * forms that lead to another origin than the page's. A click target given by its text must resolve to a single element.
+ * @param page Puppeteer page instance
+ * @param action The proposed action
+ * @param elementText The text of the element the action targets by id, if known
+ * @param textTarget The element the action's text target already resolved to, checked instead of resolving it again
+ * @returns A description of the violation, or undefined if the action is allowed
+ */
+export async function getActionViolation(
+  page: Page,
+  action: AIAction,
+  elementText?: string,
+  textTarget?: ElementHandle<Element>
+): Promise<string | undefined> {
+  const typedTexts = [action.inputText, ...(action.fields || []).map(field => field.value)].filter(Boolean) as string[];
+  if (typedTexts.some(text => CARD_NUMBER_PATTERN.test(text))) {
+    return 'entering what looks like a payment card number is not allowed';
+  }
+
+  // Every field something is typed into, selected in or focused for a key press
+  const inputTargets = action.action === 'fillForm'
+    ? action.fields || []
+    : ['type', 'select', 'press'].includes(action.action) ? [action] : [];
+  for (const target of inputTargets) {
+    const element = await findTarget(page, target);
+    const field = element && await describeSensitiveField(element);
+    if (field) {
+      return `interacting with ${field} is not allowed`;
+    }
+  }
+
+  // The element clicked directly, or the submit button of a form
+  if (action.action === 'click' || (action.action === 'fillForm' && (action.elementId !== undefined || action.targetText || action.targetSelector))) {
+    const byText = action.elementId === undefined && action.targetText;
+    const element = byText ? textTarget ?? await findElementByText(page, action.targetText!) : await findTarget(page, action);
+    if (byText && !element) {
+      return `"${action.targetText}" does not identify a single visible element`;
+    }
+    const texts = [action.targetText, elementText, element ? await getElementText(element) : undefined];
+    for (const text of texts) {
+      const denied = text && findDeniedText(text);
+      if (denied) {
+        return `clicking "${text}" is not allowed (matches "${denied}")`;
+      }
+    }
+    const destination = element && await getNavigationTarget(element);
+    if (destination && !isSameOrigin(destination, page.url())) {
+      return `following a link or form to ${destination} leaves the page's origin`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns to the page's origin when an action navigated elsewhere, by going back (or forward, after a back action)
+ * @param page Puppeteer page instance
+ * @param startUrl The URL before the action
+ * @param action The executed action
+ * @returns A description of the violation, or undefined if the page stayed on its origin
+ * @throws If the page cannot return to its origin
+ */
+export async function restoreOrigin(page: Page, startUrl: string, action: AIAction): Promise<string | undefined> {
+  const currentUrl = page.url();
+  if (isSameOrigin(currentUrl, startUrl)) {
+    return undefined;
+  }
+
+  const violation = `${action.action} navigated to ${currentUrl}, outside the page's origin`;
+  console.warn(`Action policy: ${violation}, returning`);
+  try {
+    const options = { waitUntil: 'domcontentloaded' as const, timeout: config.navigationTimeout };
+    await (action.action === 'back' ? page.goForward(options) : page.goBack(options));
+  } catch (error) {
+    console.error('Failed to return to the original page:', error);
+  }
+  if (!isSameOrigin(page.url(), startUrl)) {
+    throw new Error(`Blocked by action policy: ${violation}, and the page could not return to ${startUrl}`);
+  }
+  return violation;
+}
+
+/**
+ * Finds the element an action or form field targets, without waiting for it to appear
+ * @param page Puppeteer page instance
+ * @param target The element id or selector
+ * @returns The element, or null when it cannot be found
+ */
+async function findTarget(
+  page: Page,
+  { elementId, targetSelector }: { elementId?: number; targetSelector?: string }
+): Promise<ElementHandle<Element> | null> {
+  if (elementId !== undefined) {
+    return getMarkedElement(page, elementId) ?? null;
+  }
+  if (targetSelector) {
+    try {
+      return await page.$(targetSelector);
+    } catch {
+      // An invalid selector fails later, when the action is executed
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Recognizes password, one-time code and payment fields by their type, autocomplete hint, name and frame
+ * @param element The field
+ * @returns A description of the field, or undefined if it is not sensitive
+ */
+async function describeSensitiveField(element: ElementHandle<Element>): Promise<string | undefined> {
+  try {
+    if (PAYMENT_FRAME_PATTERN.test(new URL(element.frame.url()).hostname)) {
+      return 'a field of a payment provider';
+    }
+  } catch {
+    // The frame has no URL of its own, e.g. about:blank
+  }
+
+  return element.evaluate((el) => {
+    const input = el as HTMLInputElement;
+    const autocomplete = (el.getAttribute('autocomplete') || '').toLowerCase();
+    const names = [el.getAttribute('name'), el.id, el.getAttribute('placeholder'), el.getAttribute('aria-label')].join(' ');
+    if (input.type === 'password' || /(^|\s)(current-password|new-password|one-time-code)$/.test(autocomplete)) {
+      return 'a password or one-time code field';
+    }
+    if (/(^|\s)cc-/.test(autocomplete) || /card.?(number|num|no\b)|cc.?(num|number|csc|exp)|cvv|cvc|security.?code|iban|expir/i.test(names)) {
+      return 'a payment field';
+    }
+    if (/passw|kennwort|mot de passe|contraseña|\botp\b/i.test(names)) {
+      return 'a password or one-time code field';
+    }
+    return undefined;
+  });
+}
+
+/**
+ * Returns where clicking an element would navigate: the href of its link, or the action of the form it submits
+ * @param element The element
+ * @returns The absolute URL, or undefined if the element neither links nor submits
+ */
+async function getNavigationTarget(element: ElementHandle<Element>): Promise<string | undefined> {
+  return element.evaluate((el) => {
+    const link = el.closest('a[href]') as HTMLAnchorElement | null;
+    if (link && !link.getAttribute('href')!.startsWith('#') && !link.href.startsWith('javascript:')) {
+      return link.href;
+    }
+    const button = el as HTMLButtonElement;
+    if ((button.type === 'submit' || el instanceof HTMLInputElement && el.type === 'submit') && button.form) {
+      return button.form.action || undefined;
+    }
+    return undefined;
+  });
+}
+
+/**
+ * Reads the visible text of an element, or its value or label when it has none
+ * @param element The element
+ * @returns The normalized text
+ */
+async function getElementText(element: ElementHandle<Element>): Promise<string> {
+  return element.evaluate((el) => ((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label') || '')
+    .replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Finds the first denied word or phrase contained in a text, matched case-insensitively as whole words
+ * @param text The text of the element
+ * @returns The matching pattern, or undefined
+ */
+function findDeniedText(text: string): string | undefined {
+  const normalized = text.toLowerCase();
+  return (config.actionDenyPatterns ?? DEFAULT_DENIED_TEXTS).find((pattern) => {
+    const escaped = pattern.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(normalized);
+  });
+}
+
+/**
+ * Compares the origins of two URLs
+ * @param a The first URL
+ * @param b The second URL
+ * @returns Whether both have the same scheme, host and port
+ */
+function isSameOrigin(a: string, b: string): boolean {
+  try {
+    return new URL(a).origin === new URL(b).origin;
+  } catch {
+    return false;
+  }
+}
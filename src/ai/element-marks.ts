@@ -0,0 +1,253 @@
+import { ElementHandle, Frame, JSHandle, Page } from 'puppeteer';
+
+import { MarkedElement } from '../types/index.js';
+
+// Elements a user can interact with; shadow roots are searched as well
+const INTERACTIVE_SELECTOR = [
+  'a[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea', 'summary', 'label[for]',
+  '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]', '[role="tab"]',
+  '[role="menuitem"]', '[role="option"]', '[role="combobox"]', '[onclick]', '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+// Elements an action may name by their text instead of an id or selector
+const TEXT_TARGET_SELECTOR = 'a, button, [role="button"], [role="menuitem"], [aria-haspopup], summary, label';
+
+// Attribute of the overlay containers, so they can be found and removed again
+const MARK_ATTRIBUTE = 'data-scraper-marks';
+
+// Upper bound on numbered elements, which keeps the screenshot legible and the prompt short
+const MAX_MARKS = 150;
+
+// Label colors, alternated so that neighbouring boxes can be told apart
+const MARK_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#9a6324', '#800000'];
+
+// Handles of the elements numbered on the last marked screenshot, per page
+const markedElements = new WeakMap<Page, Map<number, ElementHandle<Element>>>();
+
+/**
+ * Takes a screenshot with a numbered box drawn over every visible interactive element of the page and its frames,
+ * including elements inside shadow DOM, so that the vision model can answer with an element id
+ * @param page Puppeteer page instance
+ * @returns The base64 screenshot and the numbered elements, which getMarkedElement resolves until the next call
+ */
+export async function captureMarkedScreenshot(page: Page): Promise<{ screenshot: string; elements: MarkedElement[] }> {
+  releaseMarkedElements(page);
+  const handles = new Map<number, ElementHandle<Element>>();
+  const elements: MarkedElement[] = [];
+  markedElements.set(page, handles);
+
+  for (const frame of await getVisibleFrames(page)) {
+    if (elements.length >= MAX_MARKS) break;
+    try {
+      elements.push(...await markFrame(frame, elements.length + 1, MAX_MARKS - elements.length, handles));
+    } catch (error) {
+      // Frames can detach while we inspect them
+      console.error(`Error marking elements in frame "${frame.name() || frame.url()}"`, error);
+    }
+  }
+
+  try {
+    const screenshot = await page.screenshot({ encoding: 'base64' }) as string;
+    return { screenshot, elements };
+  } finally {
+    await removeMarks(page);
+  }
+}
+
+/**
+ * Resolves an element id of the last marked screenshot to the element itself
+ * @param page Puppeteer page instance
+ * @param id The number shown on the screenshot
+ * @returns The element handle, or undefined if the id is unknown
+ */
+export function getMarkedElement(page: Page, id: number): ElementHandle<Element> | undefined {
+  return markedElements.get(page)?.get(id);
+}
+
+/**
+ * Resolves a target given by its text to a single visible link, button or menu entry, across all frames. An element
+ * whose text equals the target text wins over elements whose text starts with it; when several elements match
+ * equally well, the target is ambiguous and nothing is returned.
+ * @param page Puppeteer page instance
+ * @param targetText The text of the element
+ * @returns The element, or undefined if no single element matches
+ */
+export async function findElementByText(page: Page, targetText: string): Promise<ElementHandle<Element> | undefined> {
+  const wanted = targetText.replace(/\s+/g, ' ').trim().toLowerCase();
+  if (!wanted) {
+    return undefined;
+  }
+
+  const exact: ElementHandle<Element>[] = [];
+  const prefix: ElementHandle<Element>[] = [];
+  const unused: ElementHandle<Element>[] = [];
+  for (const frame of page.frames()) {
+    try {
+      const matches = await frame.$$eval(TEXT_TARGET_SELECTOR, (elements, text) => elements.map((el) => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return undefined;
+        const label = (el.textContent || el.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim().toLowerCase();
+        return label === text ? 'exact' : label.startsWith(text) ? 'prefix' : undefined;
+      }), wanted);
+      if (!matches.some(Boolean)) continue;
+
+      const handles = await frame.$$(TEXT_TARGET_SELECTOR);
+      handles.forEach((handle, index) => {
+        (matches[index] === 'exact' ? exact : matches[index] === 'prefix' ? prefix : unused).push(handle);
+      });
+    } catch (error) {
+      // The frame navigated or was detached while we looked
+      console.error(`Failed to search frame "${frame.name() || frame.url()}" for "${targetText}":`, error);
+    }
+  }
+
+  const candidates = exact.length > 0 ? exact : prefix;
+  const element = candidates.length === 1 ? candidates[0] : undefined;
+  if (candidates.length > 1) {
+    console.log(`${candidates.length} elements match the text "${targetText}", not picking one`);
+  }
+  await Promise.all([...exact, ...prefix, ...unused].filter(handle => handle !== element).map(handle => handle.dispose()));
+  return element;
+}
+
+/**
+ * Lists the main frame and the child frames whose frame element is at least partly in the viewport
+ * @param page Puppeteer page instance
+ * @returns The frames, main frame first
+ */
+async function getVisibleFrames(page: Page): Promise<Frame[]> {
+  const frames = [page.mainFrame()];
+  for (const frame of page.frames()) {
+    if (frame === page.mainFrame() || frame.isDetached()) continue;
+    try {
+      const owner = await frame.frameElement();
+      if (owner && await owner.isIntersectingViewport()) {
+        frames.push(frame);
+      }
+      await owner?.dispose();
+    } catch {
+      // The frame detached in the meantime
+    }
+  }
+  return frames;
+}
+
+/**
+ * Numbers the visible interactive elements of one frame and draws their boxes
+ * @param frame The frame
+ * @param firstId The id of the first element in this frame
+ * @param limit The maximum number of elements to mark
+ * @param handles Receives the element handles by id
+ * @returns The marked elements
+ */
+async function markFrame(
+  frame: Frame,
+  firstId: number,
+  limit: number,
+  handles: Map<number, ElementHandle<Element>>
+): Promise<MarkedElement[]> {
+  const list: JSHandle<Element[]> = await frame.evaluateHandle((selector, max) => {
+    const candidates: Element[] = [];
+    const collect = (root: Document | ShadowRoot) => {
+      for (const el of Array.from(root.querySelectorAll('*'))) {
+        if (el.matches(selector)) candidates.push(el);
+        if (el.shadowRoot) collect(el.shadowRoot);
+      }
+    };
+    collect(document);
+
+    // Only what is on screen and not covered by something else can be seen by the model
+    const topmostAt = (x: number, y: number) => {
+      let hit = document.elementFromPoint(x, y);
+      while (hit?.shadowRoot) {
+        const inner = hit.shadowRoot.elementFromPoint(x, y);
+        if (!inner || inner === hit) break;
+        hit = inner;
+      }
+      return hit;
+    };
+    const visible = candidates.filter(el => {
+      const rect = el.getBoundingClientRect();
+      if (rect.width < 2 || rect.height < 2) return false;
+      if (rect.bottom <= 0 || rect.right <= 0 || rect.top >= window.innerHeight || rect.left >= window.innerWidth) return false;
+      const style = window.getComputedStyle(el);
+      if (style.visibility === 'hidden' || style.opacity === '0') return false;
+      const x = Math.min(Math.max(rect.left + rect.width / 2, 0), window.innerWidth - 1);
+      const y = Math.min(Math.max(rect.top + rect.height / 2, 0), window.innerHeight - 1);
+      const hit = topmostAt(x, y);
+      return !!hit && (hit === el || el.contains(hit) || (el instanceof HTMLLabelElement && el.control === hit));
+    });
+
+    // Nested matches (a span with tabindex inside a button) would duplicate their container
+    return visible.filter(el => !visible.some(other => other !== el && other.contains(el))).slice(0, max);
+  }, INTERACTIVE_SELECTOR, limit);
+
+  try {
+    const marked = await list.evaluate((elements, firstId, attribute, colors) => {
+      const container = document.createElement('div');
+      container.setAttribute(attribute, '');
+      container.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483647;';
+
+      const described = elements.map((el, index) => {
+        const id = firstId + index;
+        const rect = el.getBoundingClientRect();
+        const color = colors[id % colors.length];
+
+        const box = document.createElement('div');
+        box.style.cssText = `position:fixed;left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px;`
+          + `border:2px solid ${color};box-sizing:border-box;`;
+        const label = document.createElement('span');
+        label.textContent = String(id);
+        label.style.cssText = `position:absolute;left:-2px;top:-2px;transform:translateY(-100%);background:${color};color:#fff;`
+          + 'font:bold 12px/14px sans-serif;padding:0 3px;';
+        if (rect.top < 16) label.style.transform = 'none';
+        box.appendChild(label);
+        container.appendChild(box);
+
+        const input = el as HTMLInputElement;
+        const text = (el.getAttribute('aria-label') || (el as HTMLElement).innerText || input.value || input.placeholder
+          || el.getAttribute('title') || el.getAttribute('alt') || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+        const role = el.getAttribute('role');
+        const type = el instanceof HTMLInputElement ? `[type=${input.type}]` : '';
+        return { id, tag: `${el.tagName.toLowerCase()}${type}${role ? `[role=${role}]` : ''}`, text };
+      });
+
+      document.documentElement.appendChild(container);
+      return described;
+    }, firstId, MARK_ATTRIBUTE, MARK_COLORS);
+
+    const properties = await list.getProperties();
+    marked.forEach((element, index) => {
+      const handle = properties.get(String(index))?.asElement();
+      if (handle) {
+        handles.set(element.id, handle as ElementHandle<Element>);
+      }
+    });
+    return marked;
+  } finally {
+    await list.dispose();
+  }
+}
+
+/**
+ * Removes the numbered boxes from every frame of the page
+ * @param page Puppeteer page instance
+ */
+async function removeMarks(page: Page): Promise<void> {
+  await Promise.all(page.frames().map(frame => frame
+    .evaluate((attribute) => document.querySelectorAll(`[${attribute}]`).forEach(el => el.remove()), MARK_ATTRIBUTE)
+    .catch(() => {})));
+}
+
+/**
+ * Releases the element handles of the previous marked screenshot
+ * @param page Puppeteer page instance
+ */
+function releaseMarkedElements(page: Page): void {
+  const previous = markedElements.get(page);
+  markedElements.delete(page);
+  for (const handle of previous?.values() || []) {
+    handle.dispose().catch(() => {});
+  }
+}
@@ -0,0 +1,244 @@
+import { Frame, Page } from 'puppeteer';
+
+import { waitForDomStable } from '../utils/page-waits.js';
+
+// "Accept" buttons of widespread consent-management platforms (OneTrust, Cookiebot, Didomi, Quantcast, ...)
+const CONSENT_ACCEPT_SELECTORS = [
+  '#onetrust-accept-btn-handler',
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+  '#CybotCookiebotDialogBodyButtonAccept',
+  '#didomi-notice-agree-button',
+  '.qc-cmp2-summary-buttons button[mode="primary"]',
+  '.qc-cmp-button[onclick*="acceptAll"]',
+  '#truste-consent-button',
+  '[data-testid="uc-accept-all-button"]',
+  '.osano-cm-accept-all',
+  '.cky-btn-accept',
+  '.cmplz-accept',
+  '.cm-btn-accept-all',
+  '.iubenda-cs-accept-btn',
+  '.fc-cta-consent',
+  'button.sp_choice_type_11',
+  '#BorlabsCookieBox a._brlbs-btn-accept-all',
+];
+
+// Containers of the same platforms, removed when a banner could not be dismissed by clicking
+const CONSENT_CONTAINER_SELECTORS = [
+  '#onetrust-consent-sdk',
+  '#CybotCookiebotDialog',
+  '#CybotCookiebotDialogBodyUnderlay',
+  '#didomi-host',
+  '.qc-cmp2-container',
+  '#qc-cmp2-container',
+  '#truste-consent-track',
+  '#usercentrics-root',
+  '.osano-cm-window',
+  '.cky-consent-container',
+  '#cmplz-cookiebanner-container',
+  '.fc-consent-root',
+  '[id^="sp_message_container_"]',
+  '#BorlabsCookieBox',
+  '.modal-backdrop',
+];
+
+// Common "accept" button labels across languages, matched against the whole normalized button text
+const ACCEPT_BUTTON_TEXTS = [
+  // English
+  'accept all', 'accept all cookies', 'accept cookies', 'allow all', 'allow all cookies', 'allow cookies',
+  'i accept', 'accept', 'i agree', 'agree', 'agree and close', 'agree & close', 'accept & close', 'accept and close',
+  'accept and continue', 'got it', 'ok, got it', 'consent',
+  // German
+  'alle akzeptieren', 'alle cookies akzeptieren', 'akzeptieren', 'zustimmen', 'alle zulassen', 'einverstanden',
+  'akzeptieren und schließen', 'ich stimme zu',
+  // French
+  'tout accepter', 'accepter tout', 'accepter', "j'accepte", 'accepter et fermer', 'accepter et continuer',
+  "j'ai compris",
+  // Spanish
+  'aceptar', 'aceptar todo', 'aceptar todas', 'aceptar cookies', 'acepto',
+  // Italian
+  'accetta', 'accetta tutto', 'accetta tutti', 'accetto', 'accetta e chiudi',
+  // Portuguese
+  'aceitar', 'aceitar todos', 'aceitar tudo', 'concordo',
+  // Dutch
+  'alles accepteren', 'accepteren', 'akkoord', 'alle cookies accepteren',
+  // Nordic
+  'godkänn alla', 'acceptera alla', 'accepter alle', 'tillad alle', 'godta alle', 'hyväksy kaikki',
+  // Polish, Czech
+  'akceptuję', 'zaakceptuj wszystkie', 'přijmout vše', 'souhlasím',
+];
+
+/**
+ * Tries to clear consent banners and blocking overlays using built-in rules, without any vision model
+ * @param page Puppeteer page instance
+ * @returns Whether anything was clicked or removed
+ */
+export async function applyInteractionHeuristics(page: Page): Promise<boolean> {
+  let interactionFound = false;
+
+  for (const frame of page.frames()) {
+    try {
+      const clicked = await clickKnownConsentButton(frame) || await clickAcceptButtonByText(frame);
+      if (clicked) {
+        console.log(`Heuristics clicked ${clicked} in frame "${frame.name() || frame.url()}"`);
+        interactionFound = true;
+      }
+    } catch (error) {
+      // Frames can detach while we inspect them
+      console.error(`Error applying heuristics in frame "${frame.name() || frame.url()}"`, error);
+    }
+  }
+
+  if (interactionFound) {
+    // Give consent scripts a moment to hide their UI
+    await waitForDomStable(page, { quietMs: 300, timeoutMs: 1000 });
+  }
+
+  const removed = await removeBlockingOverlays(page);
+  if (removed > 0) {
+    console.log(`Heuristics removed ${removed} blocking overlay(s)`);
+    interactionFound = true;
+  }
+
+  return interactionFound;
+}
+
+/**
+ * Looks for anything that may still hide the content: open dialogs, consent containers, CAPTCHA frames,
+ * fixed or sticky layers covering a fifth of the viewport, or a document that cannot scroll
+ * @param page Puppeteer page instance
+ * @returns Whether an overlay was found
+ */
+export async function hasBlockingOverlay(page: Page): Promise<boolean> {
+  return page.evaluate((containerSelectors) => {
+    const isVisible = (el: Element) => {
+      const style = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+    };
+
+    const candidates = [
+      ...containerSelectors,
+      'dialog[open]', '[role="dialog"]', '[role="alertdialog"]', '[aria-modal="true"]',
+      'iframe[src*="recaptcha"]', 'iframe[src*="hcaptcha"]', 'iframe[src*="challenges.cloudflare.com"]',
+    ];
+    if (candidates.some(selector => Array.from(document.querySelectorAll(selector)).some(isVisible))) {
+      return true;
+    }
+
+    const viewportArea = window.innerWidth * window.innerHeight;
+    const covering = Array.from(document.querySelectorAll('body *')).some(el => {
+      const style = window.getComputedStyle(el);
+      if ((style.position !== 'fixed' && style.position !== 'sticky') || !isVisible(el)) return false;
+      const zIndex = parseInt(style.zIndex, 10);
+      if (isNaN(zIndex) || zIndex < 1) return false;
+      const rect = el.getBoundingClientRect();
+      const visibleWidth = Math.max(0, Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0));
+      const visibleHeight = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+      return visibleWidth * visibleHeight >= viewportArea * 0.2;
+    });
+    if (covering) {
+      return true;
+    }
+
+    // A scroll lock on a page taller than the viewport usually means a modal is open
+    const locked = [document.documentElement, document.body].some(el => window.getComputedStyle(el).overflow === 'hidden');
+    return locked && document.documentElement.scrollHeight > window.innerHeight;
+  }, CONSENT_CONTAINER_SELECTORS);
+}
+
+/**
+ * Clicks the first visible accept button of a known consent-management platform
+ * @param frame The frame to search
+ * @returns The selector that was clicked, if any
+ */
+async function clickKnownConsentButton(frame: Frame): Promise<string | undefined> {
+  for (const selector of CONSENT_ACCEPT_SELECTORS) {
+    const element = await frame.$(selector);
+    if (element && await element.isVisible()) {
+      await element.click();
+      return `consent button "${selector}"`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Clicks the first visible button whose whole text is a known "accept" label
+ * @param frame The frame to search
+ * @returns A description of the clicked button, if any
+ */
+async function clickAcceptButtonByText(frame: Frame): Promise<string | undefined> {
+  const selector = 'button, a, [role="button"], input[type="button"], input[type="submit"]';
+
+  // Rank matches by the order of the label list so that "accept all" wins over a bare "accept"
+  const match = await frame.$$eval(
+    selector,
+    (elements, labels) => {
+      let best: { index: number; rank: number; text: string } | null = null;
+      for (let index = 0; index < elements.length; index++) {
+        const el = elements[index] as HTMLElement;
+        const text = ((el as HTMLInputElement).value || el.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+        const rank = labels.indexOf(text);
+        if (rank === -1 || (best && rank >= best.rank)) continue;
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0 || window.getComputedStyle(el).visibility === 'hidden') continue;
+        best = { index, rank, text };
+      }
+      return best;
+    },
+    ACCEPT_BUTTON_TEXTS
+  );
+
+  if (!match) {
+    return undefined;
+  }
+  const elements = await frame.$$(selector);
+  await elements[match.index]?.click();
+  return `button "${match.text}"`;
+}
+
+/**
+ * Removes known consent containers and large fixed overlays, and re-enables page scrolling
+ * @param page Puppeteer page instance
+ * @returns The number of removed elements
+ */
+async function removeBlockingOverlays(page: Page): Promise<number> {
+  return page.evaluate((containerSelectors) => {
+    const toRemove = new Set<Element>();
+
+    for (const selector of containerSelectors) {
+      document.querySelectorAll(selector).forEach(el => toRemove.add(el));
+    }
+
+    // Fixed or sticky elements stacked above the content and covering most of the viewport
+    const viewportArea = window.innerWidth * window.innerHeight;
+    document.querySelectorAll('body *').forEach(el => {
+      const style = window.getComputedStyle(el);
+      if (style.position !== 'fixed' && style.position !== 'sticky') return;
+      if (style.display === 'none' || style.visibility === 'hidden') return;
+      // Never remove app shells that hold the page content itself
+      if (el.querySelector('main, article')) return;
+      const zIndex = parseInt(style.zIndex, 10);
+      if (isNaN(zIndex) || zIndex < 1) return;
+      const rect = el.getBoundingClientRect();
+      const visibleWidth = Math.max(0, Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0));
+      const visibleHeight = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+      if (visibleWidth * visibleHeight >= viewportArea * 0.5) {
+        toRemove.add(el);
+      }
+    });
+
+    toRemove.forEach(el => el.remove());
+
+    // Overlays usually lock scrolling on the document while they are shown
+    if (toRemove.size > 0) {
+      for (const el of [document.documentElement, document.body]) {
+        if (window.getComputedStyle(el).overflow === 'hidden') {
+          el.style.setProperty('overflow', 'auto', 'important');
+        }
+      }
+    }
+
+    return toRemove.size;
+  }, CONSENT_CONTAINER_SELECTORS);
+}
@@ -1,46 +1,89 @@
-import fs from 'fs';
-import { Page } from 'puppeteer';
-import { AIAction } from '../types/index.js';
-import { analyzePageWithAI } from './vision-analyzer.js';
+import { setTimeout as sleep } from 'timers/promises';
+import { Dialog, ElementHandle, KeyInput, Page } from 'puppeteer';
+import {
+  AIAction,
+  AIFormField,
+  InteractionLogEntry,
+  InteractionOptions,
+  InteractionOutcome,
+  InteractionResult,
+  MarkedElement,
+  VisionProvider,
+} from '../types/index.js';
+import { analyzePageWithAI, getVisionProvider } from './vision-analyzer.js';
+import { applyInteractionHeuristics, hasBlockingOverlay } from './heuristics.js';
+import { captureMarkedScreenshot, findElementByText, getMarkedElement } from './element-marks.js';
+import { getActionViolation, restoreOrigin } from './action-policy.js';
+import { waitForDomStable } from '../utils/page-waits.js';
+import { config } from '../config.js';
+
+// Native alert, confirm, prompt and beforeunload dialogs waiting to be closed, per page
+const pendingDialogs = new WeakMap<Page, Dialog>();
+// Pages whose native dialogs are tracked
+const dialogTrackedPages = new WeakSet<Page>();
+// Native dialogs block every script evaluation in the page, so one left open is dismissed after this delay
+const DIALOG_AUTO_DISMISS_MS = 3000;
+
+// Longest pause a wait action may take; the model has no reason to wait longer for a page to settle
+const MAX_WAIT_ACTION_MS = 5000;
+
+// Close buttons of HTML dialogs and modals, tried before falling back to the Escape key
+const DIALOG_CLOSE_SELECTORS = [
+  '[aria-label*="close" i]', '[aria-label*="dismiss" i]', '[title*="close" i]',
+  '[data-dismiss="modal"]', '[data-bs-dismiss="modal"]', '.close', '.modal-close', 'button.btn-close',
+];
 
 /**
  * Executes an AI-recommended action on the page
  * @param page Puppeteer page instance
  * @param action The action to execute
+ * @param options The element the action's text target resolved to when it was checked, which is acted on instead of
+ * resolving the text again, and the abort signal of the operation
  * @returns Whether the action was successfully executed
+ * @throws If the signal aborts during a wait action
  */
-export async function executeAction(page: Page, action: AIAction): Promise<boolean> {
-  console.log(`Executing action: ${action.action}`, action);
+export async function executeAction(
+  page: Page,
+  action: AIAction,
+  { textTarget, signal }: { textTarget?: ElementHandle<Element>; signal?: AbortSignal } = {}
+): Promise<boolean> {
+  // Never log the text to type: it may be a search term, an address or anything else the model took from the page
+  console.log(`Executing action: ${action.action}${action.elementId !== undefined || action.targetText || action.targetSelector ? ` on ${describeTarget(action)}` : ''}`);
   
   switch (action.action) {
     case 'click':
-      if (action.targetText) {
-        // Try to click by text content
-        await clickElementsByText(page, action.targetText);
-        return true;
-      } else if (action.targetSelector) {
-        // Try to click by CSS selector
+      if (action.elementId !== undefined || action.targetText || action.targetSelector) {
+        // Click the exact element the model pointed at, or else the one element showing the text, or else the CSS selector
         try {
-          await page.waitForSelector(action.targetSelector, { timeout: 5000 });
-          await page.click(action.targetSelector);
-          console.log(`Clicked element with selector: ${action.targetSelector}`);
+          const element = action.elementId === undefined && action.targetText
+            ? textTarget ?? await findElementByText(page, action.targetText)
+            : await getTargetElement(page, action);
+          if (!element) {
+            console.log(`No ${describeTarget(action)} to click`);
+            return false;
+          }
+          await element.click();
+          console.log(`Clicked ${describeTarget(action)}`);
           return true;
         } catch (error) {
-          console.error(`Failed to click element with selector ${action.targetSelector}:`, error);
+          console.error(`Failed to click ${describeTarget(action)}:`, error);
           return false;
         }
       }
       return false;
 
     case 'type':
-      if (action.targetSelector && action.inputText) {
+      if ((action.elementId !== undefined || action.targetSelector) && action.inputText) {
         try {
-          await page.waitForSelector(action.targetSelector, { timeout: 5000 });
-          await page.type(action.targetSelector, action.inputText);
-          console.log(`Typed "${action.inputText}" into element with selector: ${action.targetSelector}`);
+          const element = await getTargetElement(page, action);
+          if (!element) {
+            return false;
+          }
+          await element.type(action.inputText);
+          console.log(`Typed ${action.inputText.length} character(s) into ${describeTarget(action)}`);
           return true;
         } catch (error) {
-          console.error(`Failed to type into element with selector ${action.targetSelector}:`, error);
+          console.error(`Failed to type into ${describeTarget(action)}:`, error);
           return false;
         }
       }
@@ -56,8 +99,96 @@ export async function executeAction(page: Page, action: AIAction): Promise<boole
 
     case 'wait':
       if (action.waitTime) {
-        await new Promise(resolve => setTimeout(resolve, action.waitTime));
-        console.log(`Waited for ${action.waitTime} milliseconds`);
+        const waitTime = Math.min(action.waitTime, MAX_WAIT_ACTION_MS);
+        await sleep(waitTime, undefined, { signal });
+        console.log(`Waited for ${waitTime} milliseconds`);
+        return true;
+      }
+      return false;
+
+    case 'select':
+      if ((action.elementId !== undefined || action.targetSelector) && action.inputText) {
+        try {
+          const element = await getTargetElement(page, action);
+          if (!element) {
+            return false;
+          }
+          const selected = await selectOption(element, action.inputText);
+          console.log(`${selected ? 'Selected an option' : 'Found no matching option'} in ${describeTarget(action)}`);
+          return selected;
+        } catch (error) {
+          console.error(`Failed to select an option in ${describeTarget(action)}:`, error);
+          return false;
+        }
+      }
+      return false;
+
+    case 'press':
+      if (action.key) {
+        try {
+          // Focus the target first, so that e.g. Enter submits the right form
+          if (action.elementId !== undefined || action.targetSelector) {
+            const element = await getTargetElement(page, action);
+            if (!element) {
+              return false;
+            }
+            await element.focus();
+          }
+          await page.keyboard.press(action.key as KeyInput);
+          console.log(`Pressed ${action.key}${action.elementId !== undefined || action.targetSelector ? ` in ${describeTarget(action)}` : ''}`);
+          return true;
+        } catch (error) {
+          console.error(`Failed to press ${action.key}:`, error);
+          return false;
+        }
+      }
+      return false;
+
+    case 'hover':
+      if (action.elementId !== undefined || action.targetText || action.targetSelector) {
+        try {
+          const element = action.elementId === undefined && action.targetText
+            ? textTarget ?? await findElementByText(page, action.targetText)
+            : await getTargetElement(page, action);
+          if (!element) {
+            console.log(`No ${describeTarget(action)} to hover`);
+            return false;
+          }
+          await element.hover();
+          console.log(`Hovered ${describeTarget(action)}`);
+          return true;
+        } catch (error) {
+          console.error(`Failed to hover ${describeTarget(action)}:`, error);
+          return false;
+        }
+      }
+      return false;
+
+    case 'back':
+      try {
+        const response = await page.goBack({ waitUntil: 'domcontentloaded', timeout: config.navigationTimeout });
+        console.log(response ? `Navigated back to ${page.url()}` : 'No previous page to navigate back to');
+        return response !== null;
+      } catch (error) {
+        console.error('Failed to navigate back:', error);
+        return false;
+      }
+
+    case 'dismissDialog':
+      return dismissDialog(page);
+
+    case 'fillForm':
+      if (action.fields && action.fields.length > 0) {
+        for (const field of action.fields) {
+          if (!await fillField(page, field)) {
+            return false;
+          }
+        }
+        console.log(`Filled ${action.fields.length} form field(s)`);
+        // Submit through the given button, if any
+        if (action.elementId !== undefined || action.targetText || action.targetSelector) {
+          return executeAction(page, { action: 'click', elementId: action.elementId, targetText: action.targetText, targetSelector: action.targetSelector }, { textTarget, signal });
+        }
         return true;
       }
       return false;
@@ -69,133 +200,377 @@ export async function executeAction(page: Page, action: AIAction): Promise<boole
 }
 
 /**
- * Clicks on elements that match the target text across all frames
+ * Records the native dialogs a page opens, so that a dismissDialog action can close them. A dialog nobody closes
+ * is dismissed after a few seconds, since it blocks the page.
  * @param page Puppeteer page instance
- * @param targetText The text to search for in clickable elements
  */
-export async function clickElementsByText(page: Page, targetText: string): Promise<void> {
-  const frames = page.frames();
-  const searchText = targetText.toLowerCase();
+export function trackDialogs(page: Page): void {
+  if (dialogTrackedPages.has(page)) {
+    return;
+  }
+  dialogTrackedPages.add(page);
 
-  // Process all frames in parallel using Promise.all
-  const results = await Promise.all(
-    frames.map(async (frame) => {
-      try {
-        // 1. Gather indexes of all matching elements
-        const elementIndexes = await frame.$$eval(
-          'a, button',
-          (elements, t) => {
-            const matches: number[] = [];
-            elements.forEach((el, idx) => {
-              if (el.textContent?.toLowerCase().includes(t)) {
-                matches.push(idx);
-              }
-            });
-            return matches;
-          },
-          searchText
-        );
-
-        if (elementIndexes.length === 0) {
-          return {
-            frame: frame.name() || frame.url(),
-            found: false,
-            count: 0
-          };
-        }
+  page.on('dialog', (dialog: Dialog) => {
+    console.log(`Page opened a ${dialog.type()} dialog: ${dialog.message()}`);
+    pendingDialogs.set(page, dialog);
+    setTimeout(() => {
+      if (pendingDialogs.get(page) === dialog) {
+        dismissDialog(page).catch(() => {});
+      }
+    }, DIALOG_AUTO_DISMISS_MS).unref();
+  });
+}
 
-        // 2. Click all matching elements
-        const allElements = await frame.$$('a, button');
-        await Promise.all(
-          elementIndexes.map(async (idx) => {
-            try {
-              if (allElements[idx]) {
-                await allElements[idx].click();
-              }
-            } catch (clickError) {
-              console.error(`Error clicking element at index ${idx}:`, clickError);
-            }
-          })
-        );
-
-        return {
-          frame: frame.name() || frame.url(),
-          found: true,
-          count: elementIndexes.length
-        };
-      } catch (error) {
-        console.error(`Error in frame "${frame.name() || frame.url()}"`, error);
-        return {
-          frame: frame.name() || frame.url(),
-          found: false,
-          count: 0,
-          error
-        };
+/**
+ * Closes the pending native dialog, or else the topmost HTML dialog through its close button or the Escape key
+ * @param page Puppeteer page instance
+ * @returns Whether a dialog was closed
+ */
+async function dismissDialog(page: Page): Promise<boolean> {
+  const dialog = pendingDialogs.get(page);
+  if (dialog) {
+    pendingDialogs.delete(page);
+    try {
+      // Leaving the page is what a beforeunload prompt asks about; any other dialog is cancelled
+      if (dialog.type() === 'beforeunload') {
+        await dialog.accept();
+      } else {
+        await dialog.dismiss();
+      }
+      console.log(`Dismissed ${dialog.type()} dialog`);
+      return true;
+    } catch (error) {
+      console.error('Failed to dismiss dialog:', error);
+      return false;
+    }
+  }
+
+  try {
+    const closeButton = await page.evaluateHandle((selectors) => {
+      const dialogs = Array.from(document.querySelectorAll('dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]'))
+        .filter(el => (el as HTMLElement).offsetParent !== null || window.getComputedStyle(el).position === 'fixed');
+      const topmost = dialogs[dialogs.length - 1];
+      if (!topmost) return null;
+      for (const selector of selectors) {
+        const button = topmost.querySelector(selector) as HTMLElement | null;
+        if (button && button.getBoundingClientRect().width > 0) return button;
       }
-    })
-  );
+      // Icon-only buttons labelled with a cross
+      return Array.from(topmost.querySelectorAll('button, [role="button"]'))
+        .find(el => ['×', '✕', '✖', 'x'].includes((el.textContent || '').trim().toLowerCase())) || null;
+    }, DIALOG_CLOSE_SELECTORS);
+
+    const element = closeButton.asElement() as ElementHandle<Element> | null;
+    if (element) {
+      await element.click();
+      console.log('Clicked the close button of a dialog');
+      return true;
+    }
+    await closeButton.dispose();
+
+    await page.keyboard.press('Escape');
+    console.log('Pressed Escape to close a dialog');
+    return true;
+  } catch (error) {
+    console.error('Failed to close dialog:', error);
+    return false;
+  }
+}
+
+/**
+ * Resolves the element an action or form field targets: the numbered element of the last marked screenshot,
+ * or else the first element matching the CSS selector
+ * @param page Puppeteer page instance
+ * @param target The element id or selector
+ * @returns The element, or null if the id is unknown
+ * @throws If no element matches the selector in time
+ */
+async function getTargetElement(
+  page: Page,
+  { elementId, targetSelector }: { elementId?: number; targetSelector?: string }
+): Promise<ElementHandle<Element> | null> {
+  if (elementId !== undefined) {
+    const element = getMarkedElement(page, elementId);
+    if (!element) {
+      console.log(`No element with id ${elementId} on the last screenshot`);
+    }
+    return element ?? null;
+  }
+  return page.waitForSelector(targetSelector!, { timeout: 5000 });
+}
+
+/**
+ * Describes the target of an action for log messages
+ * @param target The element id, text or selector
+ * @returns A description such as 'element [3]'
+ */
+function describeTarget({ elementId, targetText, targetSelector }: { elementId?: number; targetText?: string; targetSelector?: string }): string {
+  if (elementId !== undefined) {
+    return `element [${elementId}]`;
+  }
+  return targetText ? `element with text "${targetText}"` : `element with selector: ${targetSelector}`;
+}
+
+/**
+ * Picks an option of a select element by its value or, failing that, its visible label
+ * @param element The select element
+ * @param wanted The option value or label
+ * @returns Whether a matching option was selected
+ */
+async function selectOption(element: ElementHandle<Element>, wanted: string): Promise<boolean> {
+  const value = await element.evaluate((el, text) => {
+    if (!(el instanceof HTMLSelectElement)) return null;
+    const options = Array.from(el.options);
+    const normalized = text.trim().toLowerCase();
+    const option = options.find(candidate => candidate.value === text)
+      || options.find(candidate => candidate.text.trim().toLowerCase() === normalized);
+    return option ? option.value : null;
+  }, wanted);
+
+  if (value === null) {
+    return false;
+  }
+  await element.select(value);
+  return true;
+}
+
+/**
+ * Fills a single form field according to its kind: selects pick an option, checkboxes and radio buttons are
+ * (un)checked, and anything else is cleared and typed into
+ * @param page Puppeteer page instance
+ * @param field The field's element id or selector, and its value
+ * @returns Whether the field was filled
+ */
+async function fillField(page: Page, field: AIFormField): Promise<boolean> {
+  try {
+    const element = await getTargetElement(page, field);
+    if (!element) {
+      return false;
+    }
+    const kind = await element.evaluate((el) => {
+      if (el instanceof HTMLSelectElement) return 'select';
+      if (el instanceof HTMLInputElement && (el.type === 'checkbox' || el.type === 'radio')) return el.checked ? 'checked' : 'unchecked';
+      return 'text';
+    });
 
-  // Aggregate and log results
-  const successfulFrames = results.filter(r => r.found);
-  const totalClicks = successfulFrames.reduce((sum, r) => sum + r.count, 0);
+    if (kind === 'select') {
+      return await selectOption(element, field.value);
+    }
+    if (kind === 'checked' || kind === 'unchecked') {
+      if ((kind === 'checked') !== (field.value.trim().toLowerCase() !== 'false')) {
+        await element.click();
+      }
+      return true;
+    }
 
-  if (successfulFrames.length > 0) {
-    console.log(`Found and clicked ${totalClicks} element(s) with text "${targetText}" across ${successfulFrames.length} frame(s):`);
-    successfulFrames.forEach(r => {
-      console.log(`- Frame "${r.frame}": ${r.count} element(s)`);
+    await element.evaluate((el) => {
+      (el as HTMLInputElement).value = '';
     });
-  } else {
-    console.log(`No elements with text "${targetText}" were found in any frame.`);
+    await element.type(field.value);
+    return true;
+  } catch (error) {
+    console.error(`Failed to fill form field ${describeTarget(field)}:`, error);
+    return false;
   }
 }
 
 /**
- * Handles interactions with the page using AI vision analysis
+ * Handles interactions with the page using built-in heuristics, then AI vision analysis when a provider is configured.
+ * Each vision action is checked against the action policy first, and verified afterwards: the page must have changed,
+ * and the loop ends once no overlay remains. Actions that had no effect are not repeated, and the model is told what
+ * was tried so far. A dry run skips the heuristics and stops at the first allowed action instead of executing it.
  * @param page Puppeteer page instance
  * @param maxAttempts Maximum number of interaction attempts
- * @returns Whether any interactions were performed
+ * @param provider The vision provider to consult, defaults to the configured one
+ * @param options Progress reporting and cancellation of the interaction loop, whether to skip the vision pass on every
+ * clear page rather than only after the heuristics acted, and whether to only propose actions
+ * @returns Whether any interactions were performed, and the log of every step
  */
-export async function handlePageInteractions(page: Page, maxAttempts: number = 3): Promise<boolean> {
+export async function handlePageInteractions(
+  page: Page,
+  maxAttempts: number = 3,
+  provider: VisionProvider | undefined = getVisionProvider(),
+  { signal, onProgress, fast = false, dryRun = false }: InteractionOptions = {}
+): Promise<InteractionResult> {
+  const log: InteractionLogEntry[] = [];
   let interactionFound = false;
   let attempts = 0;
+
+  // Cheap rule-based pass for the common cookie-banner and overlay cases; it clicks as it goes, so a dry run skips it
+  if (config.enableHeuristics && dryRun) {
+    console.log("Dry run, skipping interaction heuristics");
+  } else if (config.enableHeuristics) {
+    onProgress?.('Applying interaction heuristics');
+    interactionFound = await applyInteractionHeuristics(page);
+    if (interactionFound) {
+      log.push({ step: 0, source: 'heuristics', action: 'consent and overlay rules', outcome: 'changed' });
+    }
+  }
+
+  if (!provider) {
+    console.log("No vision provider configured, skipping AI interaction analysis");
+    return { interacted: interactionFound, log };
+  }
+
+  // Screenshots and model calls are only worth it when something still covers the content: checked in fast mode, and
+  // whenever the heuristics already dealt with the page
+  if ((fast || interactionFound) && !await hasBlockingOverlay(page)) {
+    console.log("No overlay detected, skipping AI interaction analysis");
+    onProgress?.('No overlay detected, skipping the vision pass');
+    return { interacted: interactionFound, log };
+  }
+
+  // Actions that failed or changed nothing; the model proposing one of them again is going in circles
+  const ineffective = new Set<string>();
+  let repeats = 0;
   
   while (attempts < maxAttempts) {
-    console.log(`Interaction attempt ${attempts + 1}/${maxAttempts}`);
-    
-    // Take screenshot of the current page state
-    const screenshot = await page.screenshot({ encoding: 'base64' }) as string;
+    signal?.throwIfAborted();
+    const step = attempts + 1;
+
+    // A native dialog is invisible in screenshots and blocks the page, so it is closed without asking the model
+    if (pendingDialogs.has(page)) {
+      onProgress?.(`Interaction attempt ${step}/${maxAttempts}: dismissing a native dialog`);
+      const dismissed = await dismissDialog(page);
+      interactionFound = dismissed || interactionFound;
+      log.push({ step, source: 'dialog', action: 'dismissDialog', outcome: dismissed ? 'resolved' : 'failed' });
+      attempts += 1;
+      continue;
+    }
+    console.log(`Interaction attempt ${step}/${maxAttempts}`);
+    onProgress?.(`Interaction attempt ${step}/${maxAttempts}: analyzing the page`);
     
-    // Save the screenshot for debugging (optional)
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `screenshot-interaction-${timestamp}.png`;
-    const buffer = Buffer.from(screenshot, 'base64');
-    await fs.promises.writeFile(filename, buffer);
-    console.log(`Saved screenshot to ${filename}`);
+    // Take screenshot of the current page state, with the interactive elements numbered for the model to point at
+    const { screenshot, elements } = config.enableElementMarks
+      ? await captureMarkedScreenshot(page)
+      : { screenshot: await page.screenshot({ encoding: 'base64' }) as string, elements: undefined };
     
-    // Analyze the page using AI
-    const action = await analyzePageWithAI(screenshot);
+    // Analyze the page using AI, telling it what was already tried
+    const action = await analyzePageWithAI(screenshot, provider, { signal, elements, history: log });
     
     // If no interaction needed, we're done
     if (action.action === 'none') {
       console.log("No interactions needed:", action.reason);
-      return interactionFound;
+      onProgress?.(`Interaction attempt ${step}/${maxAttempts}: no interaction needed (${action.reason})`);
+      return { interacted: interactionFound, log };
+    }
+    onProgress?.(`Interaction attempt ${step}/${maxAttempts}: ${action.action} (${action.reason})`);
+    attempts += 1;
+
+    const description = describeAction(action, elements);
+    if (ineffective.has(description)) {
+      console.log(`Skipping repeated action that failed, had no effect or was blocked before: ${description}`);
+      log.push({ step, source: 'vision', action: description, reason: action.reason, outcome: 'repeated' });
+      repeats += 1;
+      if (repeats >= 2) {
+        console.log("The model keeps repeating ineffective actions, giving up");
+        onProgress?.('Interaction stopped: the model keeps repeating actions that have no effect');
+        break;
+      }
+      continue;
+    }
+    repeats = 0;
+
+    // Nothing the policy forbids reaches the page: purchases, credentials, other origins. A target named by its text is
+    // resolved once, so that the element checked is the element clicked
+    const elementText = action.elementId !== undefined ? elements?.find(element => element.id === action.elementId)?.text : undefined;
+    const textTarget = action.elementId === undefined && action.targetText && ['click', 'hover', 'fillForm'].includes(action.action)
+      ? await findElementByText(page, action.targetText)
+      : undefined;
+    const violation = await getActionViolation(page, action, elementText, textTarget);
+    if (violation) {
+      console.warn(`Action policy blocked ${description}: ${violation}`);
+      onProgress?.(`Interaction attempt ${step}/${maxAttempts}: blocked by the action policy (${violation})`);
+      log.push({ step, source: 'vision', action: description, reason: action.reason, outcome: 'blocked', violation });
+      ineffective.add(description);
+      continue;
+    }
+
+    // A dry run reports what the model would do, and leaves the page as it is
+    if (dryRun) {
+      console.log(`Dry run, not executing: ${description}`);
+      log.push({ step, source: 'vision', action: description, reason: action.reason, outcome: 'proposed' });
+      break;
     }
     
-    // Try to execute the recommended action
-    const actionSuccess = await executeAction(page, action);
+    // Try to execute the recommended action, then check what it changed
+    const startUrl = page.url();
+    const before = await getPageSignature(page);
+    const actionSuccess = await executeAction(page, action, { textTarget, signal });
+    let outcome: InteractionOutcome = 'failed';
+    let navigationViolation: string | undefined;
     
     if (actionSuccess) {
-      interactionFound = true;
-      console.log(`Successfully executed ${action.action} action: ${action.reason}`);
-      
       // Wait for any page changes to settle
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await waitForDomStable(page, { signal });
+      navigationViolation = await restoreOrigin(page, startUrl, action);
+      const changed = pendingDialogs.has(page) || await getPageSignature(page) !== before;
+      outcome = navigationViolation ? 'blocked' : !changed ? 'no-effect' : await hasBlockingOverlay(page) ? 'changed' : 'resolved';
+      console.log(`Executed ${action.action} action (${outcome}): ${action.reason}`);
     } else {
       console.log(`Failed to execute ${action.action} action`);
     }
-    
-    attempts += 1;
+    log.push({ step, source: 'vision', action: description, reason: action.reason, outcome, violation: navigationViolation });
+
+    if (outcome === 'failed' || outcome === 'no-effect' || outcome === 'blocked') {
+      ineffective.add(description);
+      continue;
+    }
+    interactionFound = true;
+    if (outcome === 'resolved') {
+      onProgress?.(`Interaction attempt ${step}/${maxAttempts}: no overlay left on the page`);
+      break;
+    }
   }
   
-  return interactionFound;
-}
\ No newline at end of file
+  return { interacted: interactionFound, log };
+}
+
+/**
+ * Describes an action for the interaction log and the model's history. Elements are named by what they show rather
+ * than by their number, which changes between screenshots, so that repeats can be recognized. Typed text and form
+ * values are given by their length only, since the log is returned to clients.
+ * @param action The action
+ * @param elements The elements numbered on the screenshot the action refers to
+ * @returns A description such as 'click button "Accept all"'
+ */
+function describeAction(action: AIAction, elements: MarkedElement[] | undefined): string {
+  const describeElement = (target: { elementId?: number; targetText?: string; targetSelector?: string }) => {
+    if (target.elementId !== undefined) {
+      const element = elements?.find(candidate => candidate.id === target.elementId);
+      return element ? `${element.tag}${element.text ? ` "${element.text}"` : ''}` : `element ${target.elementId}`;
+    }
+    return target.targetText ? `"${target.targetText}"` : target.targetSelector || '';
+  };
+
+  const parts: string[] = [action.action];
+  const target = describeElement(action);
+  if (target) parts.push(target);
+  if (action.key) parts.push(`key ${action.key}`);
+  if (action.inputText) parts.push(action.action === 'select' ? `"${action.inputText}"` : `(${action.inputText.length} characters)`);
+  if (action.fields) parts.push(`fields ${action.fields.map(field => `${describeElement(field)} (${field.value.length} characters)`).join(', ')}`);
+  if (action.scrollAmount) parts.push(`${action.scrollAmount}px`);
+  if (action.waitTime) parts.push(`${action.waitTime}ms`);
+  return parts.join(' ');
+}
+
+/**
+ * Summarizes the visible state of a page, so that a change made by an action can be detected
+ * @param page Puppeteer page instance
+ * @returns A signature of the URL, the number of elements, the visible text and the scroll position
+ */
+async function getPageSignature(page: Page): Promise<string> {
+  try {
+    return await page.evaluate(() => {
+      const text = document.body?.innerText || '';
+      let hash = 0;
+      for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+      }
+      return `${location.href}|${document.getElementsByTagName('*').length}|${text.length}:${hash}|${window.scrollY}`;
+    });
+  } catch {
+    // The action navigated away while we looked
+    return `navigated:${Date.now()}`;
+  }
+}
@@ -0,0 +1,53 @@
+import { config } from '../../config.js';
+import { VisionProvider } from '../../types/index.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Creates a vision provider for the Anthropic Messages API
+ * @returns The Anthropic vision provider
+ */
+export function createAnthropicVisionProvider(): VisionProvider {
+  const baseUrl = (config.apiBaseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+
+  return {
+    name: 'anthropic',
+    async complete({ prompt, images, maxTokens = 500, signal }) {
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': config.anthropicApiKey || '',
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: config.visionModel,
+          max_tokens: maxTokens,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                ...images.map(image => ({
+                  type: 'image',
+                  source: { type: 'base64', media_type: 'image/png', data: image }
+                })),
+                { type: 'text', text: prompt }
+              ]
+            }
+          ]
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API request failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json() as { content?: { type: string; text?: string }[] };
+      return (body.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+    }
+  };
+}
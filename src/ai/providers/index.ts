@@ -0,0 +1,28 @@
+import { config } from '../../config.js';
+import { VisionProvider } from '../../types/index.js';
+import { createOpenAIVisionProvider } from './openai.js';
+import { createAnthropicVisionProvider } from './anthropic.js';
+import { createOllamaVisionProvider } from './ollama.js';
+import { createMockVisionProvider } from './mock.js';
+
+export { createMockVisionProvider } from './mock.js';
+
+/**
+ * Creates the vision provider selected by the VISION_PROVIDER setting
+ * @returns The configured vision provider, or undefined when vision is disabled
+ */
+export function createVisionProvider(): VisionProvider | undefined {
+  switch (config.visionProvider) {
+    case 'none':
+      return undefined;
+    case 'anthropic':
+      return createAnthropicVisionProvider();
+    case 'ollama':
+      return createOllamaVisionProvider();
+    case 'mock':
+      return createMockVisionProvider();
+    case 'openai':
+    default:
+      return createOpenAIVisionProvider();
+  }
+}
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { config } from '../../config.js';
+import { AIAction, VisionProvider } from '../../types/index.js';
+
+/**
+ * Creates a deterministic vision provider that replays scripted actions, for offline testing
+ * @param actions The actions to return, in order; once exhausted every call returns a "none" action
+ * @returns The mock vision provider
+ */
+export function createMockVisionProvider(actions: AIAction[] = loadMockActions()): VisionProvider {
+  let index = 0;
+
+  return {
+    name: 'mock',
+    async complete({ signal }) {
+      signal?.throwIfAborted();
+      const action = actions[index] ?? { action: 'none', reason: 'Mock script exhausted' };
+      index += 1;
+      return JSON.stringify(action);
+    }
+  };
+}
+
+/**
+ * Loads the scripted actions from MOCK_VISION_ACTIONS, given either inline as JSON or as a path to a JSON file
+ * @returns The scripted actions
+ */
+function loadMockActions(): AIAction[] {
+  const source = config.mockVisionActions?.trim();
+  if (!source) {
+    return [];
+  }
+
+  const json = source.startsWith('[') ? source : fs.readFileSync(source, 'utf8');
+  const actions = JSON.parse(json);
+  if (!Array.isArray(actions)) {
+    throw new Error('MOCK_VISION_ACTIONS must be a JSON array of actions');
+  }
+  return actions as AIAction[];
+}
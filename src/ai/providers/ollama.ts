@@ -0,0 +1,35 @@
+import { config } from '../../config.js';
+import { VisionProvider } from '../../types/index.js';
+
+/**
+ * Creates a vision provider for the native Ollama chat API
+ * @returns The Ollama vision provider
+ */
+export function createOllamaVisionProvider(): VisionProvider {
+  const baseUrl = (config.apiBaseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+
+  return {
+    name: 'ollama',
+    async complete({ prompt, images, maxTokens = 500, signal }) {
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          model: config.visionModel,
+          messages: [{ role: 'user', content: prompt, images }],
+          format: 'json',
+          stream: false,
+          options: { num_predict: maxTokens },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama request failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      const body = await response.json() as { message?: { content?: string } };
+      return body.message?.content || '';
+    }
+  };
+}
@@ -0,0 +1,42 @@
+import { OpenAI } from 'openai';
+import { apiConfig, config } from '../../config.js';
+import { VisionProvider } from '../../types/index.js';
+
+/**
+ * Creates a vision provider for the OpenAI chat completions API or any compatible endpoint
+ * @returns The OpenAI-compatible vision provider
+ */
+export function createOpenAIVisionProvider(): VisionProvider {
+  const openai = new OpenAI(apiConfig);
+
+  return {
+    name: 'openai',
+    async complete({ prompt, images, maxTokens = 500, signal }) {
+      const response = await openai.chat.completions.create({
+        model: config.visionModel,
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: prompt
+              },
+              ...images.map(image => ({
+                type: "image_url" as const,
+                image_url: {
+                  url: `data:image/png;base64,${image}`,
+                  detail: "high" as const
+                }
+              }))
+            ]
+          }
+        ],
+        response_format: { type: "json_object" },
+        max_tokens: maxTokens
+      }, { signal });
+
+      return response.choices[0]?.message.content || '';
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { getVisionProvider, parseJsonResponse } from './vision-analyzer.js';
+import { jsonSchemaToZod } from '../utils/json-schema.js';
+import { JsonSchema, OperationHooks, VisionProvider } from '../types/index.js';
+
+// Keep the prompt within the context window of common vision models
+const MAX_MARKDOWN_LENGTH = 60000;
+
+/**
+ * Asks the vision model to fill a JSON Schema from a page's markdown and screenshots, retrying until the answer validates
+ * @param markdown The page content as markdown
+ * @param screenshots Base64-encoded PNG screenshots of the page
+ * @param schema The JSON Schema the answer must satisfy
+ * @param options Extra instructions for the model, the number of retries after a validation failure, and progress/cancellation hooks
+ * @param provider The vision provider to ask, defaults to the configured one
+ * @returns The validated data and the number of model calls it took
+ * @throws If no vision provider is configured or no answer validates within the allowed retries
+ */
+export async function fillSchemaWithAI(
+  markdown: string,
+  screenshots: string[],
+  schema: JsonSchema,
+  { instructions, maxRetries = 2, signal, onProgress }: { instructions?: string; maxRetries?: number } & OperationHooks = {},
+  provider: VisionProvider | undefined = getVisionProvider()
+): Promise<{ data: unknown; attempts: number }> {
+  if (!provider) {
+    throw new Error('Structured extraction requires a vision provider (set VISION_PROVIDER)');
+  }
+
+  // JSON mode only accepts objects at the top level, so wrap anything else
+  const wrapped = schema.type !== 'object';
+  const targetSchema: JsonSchema = wrapped
+    ? { type: 'object', properties: { result: schema }, required: ['result'] }
+    : schema;
+  const validator = jsonSchemaToZod(targetSchema);
+
+  const content = markdown.length > MAX_MARKDOWN_LENGTH
+    ? `${markdown.substring(0, MAX_MARKDOWN_LENGTH)}\n\n[content truncated]`
+    : markdown;
+
+  let feedback = '';
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    signal?.throwIfAborted();
+    onProgress?.(`Extraction attempt ${attempt}/${maxRetries + 1}: asking the vision model`);
+    const prompt = `
+You are extracting structured data from a webpage. You are given the page content as markdown and ${screenshots.length} screenshot(s) of the page.
+
+Fill in a JSON object that matches this JSON Schema:
+${JSON.stringify(targetSchema, null, 2)}
+
+Rules:
+- Use only information present on the page; use null for values that cannot be found.
+- Numbers must be JSON numbers without currency symbols or thousands separators.
+- Respond with the JSON object only.
+${instructions ? `\nAdditional instructions: ${instructions}\n` : ''}${feedback}
+Page content:
+${content}
+`;
+
+    let answer: string;
+    try {
+      answer = await provider.complete({ prompt, images: screenshots, maxTokens: 4000, signal });
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new Error(`Vision provider request failed: ${error.message}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(answer);
+    } catch (error: any) {
+      console.error(`Extraction attempt ${attempt} returned invalid JSON:`, error.message);
+      feedback = `\nYour previous answer was not valid JSON. Respond with a single JSON object.\n`;
+      continue;
+    }
+
+    const validation = validator.safeParse(parsed);
+    if (validation.success) {
+      const data = validation.data as Record<string, unknown>;
+      return { data: wrapped ? data.result : data, attempts: attempt };
+    }
+
+    const issues = validation.error.issues
+      .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    console.error(`Extraction attempt ${attempt} failed validation:\n${issues}`);
+    feedback = `\nYour previous answer was:\n${JSON.stringify(parsed)}\nIt did not match the schema:\n${issues}\nFix these problems.\n`;
+  }
+
+  throw new Error(`Extracted data did not match the schema after ${maxRetries + 1} attempt(s)`);
+}
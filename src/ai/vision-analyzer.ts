@@ -1,16 +1,50 @@
-import { OpenAI } from 'openai';
-import { apiConfig, config } from '../config.js';
-import { AIAction } from '../types/index.js';
+import { createVisionProvider } from './providers/index.js';
+import { AIAction, InteractionLogEntry, InteractionOutcome, MarkedElement, VisionProvider } from '../types/index.js';
 
-// Initialize the OpenAI client
-const openai = new OpenAI(apiConfig);
+// How the outcome of a previous action is described to the model
+const OUTCOME_DESCRIPTIONS: Record<InteractionOutcome, string> = {
+  resolved: 'worked, no overlay remained',
+  changed: 'changed the page, but an overlay remained',
+  'no-effect': 'had no visible effect',
+  failed: 'could not be executed, e.g. the element was not found',
+  repeated: 'was not executed again, since it failed, had no effect or was blocked before',
+  blocked: 'was blocked as unsafe',
+  proposed: 'was proposed but not executed',
+};
+
+// Vision provider selected by configuration, created on first use
+let defaultProvider: VisionProvider | undefined;
+let defaultProviderCreated = false;
+
+/**
+ * Returns the vision provider selected by configuration
+ * @returns The shared vision provider instance, or undefined when vision is disabled
+ */
+export function getVisionProvider(): VisionProvider | undefined {
+  if (!defaultProviderCreated) {
+    defaultProvider = createVisionProvider();
+    defaultProviderCreated = true;
+  }
+  return defaultProvider;
+}
 
 /**
  * Analyzes a screenshot of a webpage using AI vision to determine if interactions are needed
  * @param base64Image Screenshot in base64 format
+ * @param provider The vision provider to ask, defaults to the configured one
+ * @param context The abort signal of the model request, the interactive elements numbered on the screenshot if it
+ * was marked, and the steps already taken on the page
  * @returns A recommended action to take on the page
  */
-export async function analyzePageWithAI(base64Image: string): Promise<AIAction> {
+export async function analyzePageWithAI(
+  base64Image: string,
+  provider: VisionProvider | undefined = getVisionProvider(),
+  { signal, elements, history = [] }: { signal?: AbortSignal; elements?: MarkedElement[]; history?: InteractionLogEntry[] } = {}
+): Promise<AIAction> {
+  if (!provider) {
+    return { action: 'none', reason: 'No vision provider configured' };
+  }
+
   const genericInteractionPrompt = `
 You are an AI assistant helping to navigate a webpage. Analyze this screenshot and determine if there are any interactions needed to proceed with normal browsing.
 
@@ -25,52 +59,138 @@ Look for elements such as:
 8. Any other interactive element blocking normal content viewing
 
 If you identify any such element, respond with a JSON object specifying:
-- "action": The action to take ("click", "type", "scroll", "wait", or "none")
-- "targetText": The exact text of any button to click
-- "targetSelector": (Optional) A CSS selector if the element has no visible text
-- "inputText": Text to input if required
+- "action": The action to take, one of:
+  - "click": Click a button or link
+  - "type": Type text into an input
+  - "select": Choose an option of a dropdown (<select>)
+  - "press": Press a key, e.g. "Enter" to submit or "Escape" to close a popup
+  - "hover": Move the mouse over an element, e.g. to open a menu
+  - "back": Go back to the previous page, e.g. after landing on an interstitial
+  - "dismissDialog": Close the dialog or modal in front of the page
+  - "fillForm": Fill several fields at once, e.g. the day, month and year of an age gate, then optionally click a submit button
+  - "scroll": Scroll the page
+  - "wait": Wait for the page to change
+  - "none": No interaction needed
+- "elementId": The number of the element to act on, when it is labelled on the screenshot (for "fillForm": the submit button)
+- "targetText": The exact text of the button to click or the element to hover, when it has no number (for "fillForm": the submit button)
+- "targetSelector": (Optional) A CSS selector if the element has neither a number nor visible text; "type" and "select" need an elementId or targetSelector, and "press" focuses its target first
+- "inputText": Text to input for "type", or the value or visible label of the option for "select"
+- "key": The key for "press", e.g. "Enter", "Escape", "Tab"
+- "fields": For "fillForm", an array of {"elementId": 1, "value": "..."} or {"targetSelector": "...", "value": "..."}; the value is the text of an input, the option of a select, or "true"/"false" for a checkbox
 - "scrollAmount": Pixels to scroll if needed
-- "waitTime": Time to wait in milliseconds if needed
+- "waitTime": Time to wait in milliseconds if needed, at most 5000
 - "reason": A brief explanation of what you identified and why this action is recommended
 
+Never choose an action that buys, pays, orders, subscribes, signs up, deletes anything, enters a password or payment
+data, or leaves the website; such actions are blocked.
+
 If no action is needed, respond with: {"action": "none", "reason": "No interaction needed"}
 
 IMPORTANT: Your response must be valid JSON.
 `;
+  let prompt = genericInteractionPrompt;
+  if (elements && elements.length > 0) {
+    prompt += `
+The interactive elements on the screenshot are outlined and labelled with numbers. Always identify the element by its
+"elementId" when it is labelled, rather than by text or selector. The labelled elements are:
+${elements.map(element => `[${element.id}] ${element.tag}${element.text ? ` "${element.text}"` : ''}`).join('\n')}
+`;
+  }
+  if (history.length > 0) {
+    prompt += `
+Actions already taken on this page, in order:
+${history.map(entry => `- ${entry.action}: ${OUTCOME_DESCRIPTIONS[entry.outcome]}${entry.violation ? ` (${entry.violation})` : ''}`).join('\n')}
+Do not repeat an action that had no effect, failed or was blocked. Try a different element or action, or answer "none" if the content is accessible.
+`;
+  }
 
   try {
-    const response = await openai.chat.completions.create({
-      model: config.visionModel,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: genericInteractionPrompt
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`,
-                detail: "high"
-              }
-            }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 500
+    const response = await provider.complete({
+      prompt,
+      images: [base64Image],
+      maxTokens: 500,
+      signal
     });
 
-    const content = response.choices[0]?.message.content || '{"action": "none", "reason": "Failed to get response"}';
-    console.log("AI analysis:", content);
-    return JSON.parse(content) as AIAction;
+    const content = response || '{"action": "none", "reason": "Failed to get response"}';
+    const action = parseJsonResponse(content) as AIAction;
+    // Only the decision is logged: the response may hold text to type into the page
+    console.log(`AI analysis: ${action.action} (${action.reason})`);
+    return action;
   } catch (e) {
+    // A cancelled request must stop the interaction loop rather than look like "no action needed"
+    if (signal?.aborted) {
+      throw e;
+    }
     console.error('Failed to parse AI response:', e);
     return { 
       action: 'none', 
       reason: 'Error parsing AI response' 
     };
   }
+}
+
+/**
+ * Asks the vision model which of the numbered elements of a login form are the username field, the password field
+ * and the submit button. Only the screenshot and the element labels are sent, before anything is typed, so that no
+ * credential ever reaches the model.
+ * @param base64Image Marked screenshot of the login page in base64 format
+ * @param elements The interactive elements numbered on the screenshot
+ * @param provider The vision provider to ask, defaults to the configured one
+ * @param signal The abort signal of the model request
+ * @returns The element ids found, each undefined when the model sees no such element
+ */
+export async function locateLoginFieldsWithAI(
+  base64Image: string,
+  elements: MarkedElement[],
+  provider: VisionProvider | undefined = getVisionProvider(),
+  signal?: AbortSignal
+): Promise<{ usernameId?: number; passwordId?: number; submitId?: number }> {
+  if (!provider) {
+    return {};
+  }
+
+  const prompt = `
+This screenshot shows the login page of a website. Its interactive elements are outlined and labelled with numbers:
+${elements.map(element => `[${element.id}] ${element.tag}${element.text ? ` "${element.text}"` : ''}`).join('\n')}
+
+Identify the elements needed to log in, ignoring sign-up, search and newsletter forms:
+- "usernameId": The number of the username or email field
+- "passwordId": The number of the password field, if it is shown on this page (some sites ask for it on a second page)
+- "submitId": The number of the button that submits the login form, e.g. "Log in", "Sign in" or "Next"
+Use null for an element that is not on the page.
+
+IMPORTANT: Your response must be a valid JSON object, e.g. {"usernameId": 3, "passwordId": 4, "submitId": 5}
+`;
+
+  try {
+    const response = await provider.complete({ prompt, images: [base64Image], maxTokens: 200, signal });
+    const answer = parseJsonResponse(response) as Record<string, unknown>;
+    const toId = (value: unknown) => typeof value === 'number' && elements.some(element => element.id === value) ? value : undefined;
+    return { usernameId: toId(answer.usernameId), passwordId: toId(answer.passwordId), submitId: toId(answer.submitId) };
+  } catch (e) {
+    if (signal?.aborted) {
+      throw e;
+    }
+    console.error('Failed to locate the login form with the vision model:', e);
+    return {};
+  }
+}
+
+/**
+ * Parses a model's JSON answer, tolerating markdown code fences or prose around the object
+ * @param content The raw model output
+ * @returns The parsed JSON value
+ */
+export function parseJsonResponse(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error(`No JSON object found in model response: ${content}`);
+    }
+    return JSON.parse(content.slice(start, end + 1));
+  }
 }
\ No newline at end of file
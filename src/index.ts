@@ -5,7 +5,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 // Import the main server module
-import { createMcpServer } from './server/mcp-server.js';
+import { startMcpServer } from './server/mcp-server.js';
 
 // Start the server
-createMcpServer();
\ No newline at end of file
+startMcpServer();
\ No newline at end of file
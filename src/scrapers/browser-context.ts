@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { CookieParam, Device, KnownDevices, Page } from 'puppeteer';
+
+import { config } from '../config.js';
+import { BrowserContextOptions, BrowserCookie, StorageState } from '../types/index.js';
+
+// Shorthand device names accepted besides Puppeteer's known devices
+const DEVICE_ALIASES: Record<string, keyof typeof KnownDevices> = {
+  mobile: 'iPhone 13',
+  tablet: 'iPad Pro 11',
+};
+
+/**
+ * Applies the browser context options to a fresh page: device emulation, viewport, locale, timezone,
+ * geolocation, user agent, extra headers, cookies and storage state. Unset options fall back to the BROWSER_* defaults.
+ * @param page Puppeteer page instance, before it navigates anywhere
+ * @param options The options of the request
+ * @param url The URL the page will load, used for cookies without url or domain
+ * @throws If the device, timezone or storage state is invalid
+ */
+export async function applyBrowserContext(page: Page, options: BrowserContextOptions = {}, url?: string): Promise<void> {
+  const resolved = resolveBrowserContext(options);
+
+  const device = getDevice(resolved.device);
+  if (device) {
+    await page.emulate(device);
+  }
+  if (resolved.viewport && (options.viewport || !device)) {
+    await page.setViewport({ ...device?.viewport, deviceScaleFactor: 1, ...resolved.viewport });
+  }
+
+  if (resolved.userAgent) {
+    await page.setUserAgent(resolved.userAgent);
+  }
+
+  const headers: Record<string, string> = { ...resolved.headers };
+  if (resolved.locale) {
+    headers['Accept-Language'] ??= toAcceptLanguage(resolved.locale);
+    await emulateLocale(page, resolved.locale);
+  }
+  if (Object.keys(headers).length > 0) {
+    await page.setExtraHTTPHeaders(headers);
+  }
+
+  if (resolved.timezone) {
+    await page.emulateTimezone(resolved.timezone);
+  }
+
+  if (resolved.geolocation) {
+    // Grant the permission for every origin of this page's isolated context
+    const session = await page.browser().target().createCDPSession();
+    try {
+      await session.send('Browser.grantPermissions', { permissions: ['geolocation'], browserContextId: page.browserContext().id });
+    } finally {
+      await session.detach();
+    }
+    await page.setGeolocation(resolved.geolocation);
+  }
+
+  const cookies: BrowserCookie[] = [];
+  if (resolved.storageState) {
+    const state = await loadStorageState(resolved.storageState, options.storageState !== undefined);
+    cookies.push(...state.cookies || []);
+    await injectLocalStorage(page, state);
+  }
+  cookies.push(...resolved.cookies || []);
+  if (cookies.length > 0) {
+    await page.setCookie(...cookies.map(cookie => toCookieParam(cookie, url)));
+  }
+}
+
+/**
+ * Merges the options of a request over the BROWSER_* defaults; headers are merged key by key
+ * @param options The options of the request
+ * @returns The effective options
+ */
+export function resolveBrowserContext(options: BrowserContextOptions = {}): BrowserContextOptions {
+  const defaults = config.browserDefaults;
+  return {
+    ...defaults,
+    ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+    headers: defaults.headers || options.headers ? { ...defaults.headers, ...options.headers } : undefined,
+  };
+}
+
+/**
+ * Looks up a device to emulate
+ * @param name "desktop", "mobile", "tablet", or a Puppeteer device name such as "iPhone 13"
+ * @returns The device, or undefined for desktop
+ * @throws If the device is unknown
+ */
+function getDevice(name: string | undefined): Device | undefined {
+  if (!name || name.toLowerCase() === 'desktop') {
+    return undefined;
+  }
+
+  const known = KnownDevices as Record<string, Device>;
+  const device = known[DEVICE_ALIASES[name.toLowerCase()] ?? name]
+    ?? Object.entries(known).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+  if (!device) {
+    throw new Error(`Unknown device "${name}". Use desktop, mobile, tablet or a Puppeteer device name such as "iPhone 13" or "Pixel 5"`);
+  }
+  return device;
+}
+
+/**
+ * Makes the page report the locale through navigator.language(s) and Intl
+ * @param page Puppeteer page instance
+ * @param locale The locale, e.g. "de-DE"
+ */
+async function emulateLocale(page: Page, locale: string): Promise<void> {
+  const languages = [locale, locale.split('-')[0]!].filter((value, index, all) => all.indexOf(value) === index);
+  await page.evaluateOnNewDocument((values: string[]) => {
+    Object.defineProperty(navigator, 'language', { get: () => values[0] });
+    Object.defineProperty(navigator, 'languages', { get: () => values });
+  }, languages);
+
+  const session = await page.createCDPSession();
+  try {
+    await session.send('Emulation.setLocaleOverride', { locale: locale.replace(/-/g, '_') });
+  } catch (error) {
+    console.error(`Could not override the Intl locale with ${locale}:`, error);
+  } finally {
+    await session.detach();
+  }
+}
+
+/**
+ * Builds an Accept-Language header for a locale, falling back to its base language
+ * @param locale The locale, e.g. "de-DE"
+ * @returns The header value, e.g. "de-DE,de;q=0.9"
+ */
+function toAcceptLanguage(locale: string): string {
+  const base = locale.split('-')[0]!;
+  return base !== locale ? `${locale},${base};q=0.9` : locale;
+}
+
+/**
+ * Reads a storage-state file. Files named by a request must live in STORAGE_STATE_DIR, so that callers cannot read arbitrary files.
+ * @param file The file path (default) or the file name within STORAGE_STATE_DIR (request)
+ * @param fromRequest Whether the file was named by the request rather than the configuration
+ * @returns The storage state
+ * @throws If the file is outside STORAGE_STATE_DIR, unreadable or not valid JSON
+ */
+async function loadStorageState(file: string, fromRequest: boolean): Promise<StorageState> {
+  let filePath = file;
+  if (fromRequest) {
+    if (!config.storageStateDir) {
+      throw new Error('storageState requires STORAGE_STATE_DIR to be configured');
+    }
+    const directory = path.resolve(config.storageStateDir);
+    filePath = path.resolve(directory, file);
+    if (path.dirname(filePath) !== directory) {
+      throw new Error(`storageState must be a file name within STORAGE_STATE_DIR: ${file}`);
+    }
+  }
+
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as StorageState;
+  } catch (error: any) {
+    throw new Error(`Could not load storage state ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Restores the localStorage entries of a storage state in every matching origin before its scripts run
+ * @param page Puppeteer page instance
+ * @param state The storage state
+ */
+async function injectLocalStorage(page: Page, state: StorageState): Promise<void> {
+  const origins = (state.origins || []).filter(entry => entry.localStorage && entry.localStorage.length > 0);
+  if (origins.length === 0) {
+    return;
+  }
+
+  await page.evaluateOnNewDocument((entries: StorageState['origins']) => {
+    const entry = entries!.find(candidate => candidate.origin === window.location.origin);
+    if (!entry) return;
+    try {
+      for (const { name, value } of entry.localStorage || []) {
+        window.localStorage.setItem(name, value);
+      }
+    } catch {
+      // Storage is not available in this document, e.g. a sandboxed frame
+    }
+  }, origins);
+}
+
+/**
+ * Converts a cookie to Puppeteer's format, scoping it to the page URL when it names neither url nor domain
+ * @param cookie The cookie
+ * @param url The URL the page will load
+ * @returns The Puppeteer cookie parameter
+ * @throws If the cookie cannot be scoped
+ */
+function toCookieParam(cookie: BrowserCookie, url: string | undefined): CookieParam {
+  if (!cookie.url && !cookie.domain) {
+    if (!url) {
+      throw new Error(`Cookie "${cookie.name}" needs a url or domain`);
+    }
+    return { ...cookie, url };
+  }
+  return { ...cookie };
+}
@@ -0,0 +1,277 @@
+import puppeteerExtraImport from 'puppeteer-extra';
+import StealthPluginImport from 'puppeteer-extra-plugin-stealth';
+import { Browser, BrowserContext, Page } from 'puppeteer';
+
+import { config } from '../config.js';
+import { ProxySettings } from '../types/index.js';
+
+// Work around TypeScript issues with puppeteer-extra
+const puppeteerExtra = puppeteerExtraImport as any;
+const StealthPlugin = StealthPluginImport as any;
+
+// Apply stealth plugin
+puppeteerExtra.use(StealthPlugin());
+
+// A launched browser together with its usage bookkeeping
+interface PooledBrowser {
+  browser: Browser;
+  activePages: number;
+  lastUsed: number;
+}
+
+// A caller waiting for a free page slot
+interface PoolWaiter {
+  resolve: (entry: PooledBrowser) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const browsers: PooledBrowser[] = [];
+const waitQueue: PoolWaiter[] = [];
+// Each borrowed page lives in its own browser context so that cookies and storage never leak between requests
+const borrowedPages = new Map<Page, { entry: PooledBrowser; context: BrowserContext; proxy?: ProxySettings }>();
+let pendingLaunches = 0;
+let reaperTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Borrows a fresh page from the shared browser pool, launching or waiting for a browser as needed
+ * @param proxy The proxy the page's browser context connects through, if any
+ * @returns A Puppeteer page that must be handed back with releasePage
+ */
+export async function acquirePage(proxy?: ProxySettings): Promise<Page> {
+  const entry = await acquireSlot();
+
+  let context: BrowserContext | undefined;
+  try {
+    context = await entry.browser.createBrowserContext(proxy
+      ? { proxyServer: proxy.server, proxyBypassList: config.proxyBypass.length > 0 ? config.proxyBypass : undefined }
+      : undefined);
+    const page = await context.newPage();
+    // Answer the proxy's authentication challenges; the credentials never reach the page
+    if (proxy?.username) {
+      await page.authenticate({ username: proxy.username, password: proxy.password || '' });
+    }
+    borrowedPages.set(page, { entry, context, proxy });
+    return page;
+  } catch (error) {
+    await context?.close().catch(() => {});
+    freeSlot(entry);
+    throw error;
+  }
+}
+
+/**
+ * Returns a borrowed page to the pool, closing its browser context
+ * @param page The page previously obtained from acquirePage
+ */
+export async function releasePage(page: Page): Promise<void> {
+  const borrowed = borrowedPages.get(page);
+  if (!borrowed) {
+    return;
+  }
+  borrowedPages.delete(page);
+
+  try {
+    await borrowed.context.close();
+  } catch (error) {
+    // The browser may have crashed or been closed in the meantime
+    console.error('Error closing browser context:', error);
+  }
+
+  freeSlot(borrowed.entry);
+}
+
+/**
+ * Returns the proxy a borrowed page connects through
+ * @param page The page previously obtained from acquirePage
+ * @returns The proxy, or undefined for a direct connection
+ */
+export function getPageProxy(page: Page): ProxySettings | undefined {
+  return borrowedPages.get(page)?.proxy;
+}
+
+/**
+ * Closes every browser in the pool and rejects any pending waiters
+ */
+export async function closeBrowserPool(): Promise<void> {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = undefined;
+  }
+
+  for (const waiter of waitQueue.splice(0)) {
+    clearTimeout(waiter.timer);
+    waiter.reject(new Error('Browser pool is shutting down'));
+  }
+
+  const entries = browsers.splice(0);
+  await Promise.all(entries.map(async (entry) => {
+    try {
+      await entry.browser.close();
+    } catch (error) {
+      console.error('Error closing pooled browser:', error);
+    }
+  }));
+}
+
+/**
+ * Reserves a page slot on a connected browser, launching a new one or queueing when the pool is saturated
+ * @returns The pooled browser the slot was reserved on
+ */
+function acquireSlot(): Promise<PooledBrowser> {
+  const available = findAvailableBrowser();
+  if (available) {
+    reserveSlot(available);
+    return Promise.resolve(available);
+  }
+
+  if (browsers.length + pendingLaunches < config.maxBrowsers) {
+    return launchBrowser();
+  }
+
+  console.log(`Browser pool saturated, queueing request (${waitQueue.length + 1} waiting)`);
+  return new Promise<PooledBrowser>((resolve, reject) => {
+    const waiter: PoolWaiter = {
+      resolve,
+      reject,
+      timer: setTimeout(() => {
+        const index = waitQueue.indexOf(waiter);
+        if (index !== -1) {
+          waitQueue.splice(index, 1);
+        }
+        reject(new Error(`Timed out after ${config.browserQueueTimeout}ms waiting for a free browser page`));
+      }, config.browserQueueTimeout),
+    };
+    waitQueue.push(waiter);
+  });
+}
+
+/**
+ * Finds the least busy connected browser that still has room for another page
+ * @returns The pooled browser, or undefined if all are at capacity
+ */
+function findAvailableBrowser(): PooledBrowser | undefined {
+  let best: PooledBrowser | undefined;
+  for (const entry of browsers) {
+    if (!entry.browser.connected || entry.activePages >= config.maxPagesPerBrowser) {
+      continue;
+    }
+    if (!best || entry.activePages < best.activePages) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/**
+ * Marks a page slot as in use on the given browser
+ * @param entry The pooled browser
+ */
+function reserveSlot(entry: PooledBrowser): void {
+  entry.activePages += 1;
+  entry.lastUsed = Date.now();
+}
+
+/**
+ * Releases a page slot and hands capacity to the next waiter, if any
+ * @param entry The pooled browser the slot belonged to
+ */
+function freeSlot(entry: PooledBrowser): void {
+  entry.activePages = Math.max(0, entry.activePages - 1);
+  entry.lastUsed = Date.now();
+  drainWaitQueue();
+}
+
+/**
+ * Serves queued callers while there is free capacity in the pool
+ */
+function drainWaitQueue(): void {
+  while (waitQueue.length > 0) {
+    const available = findAvailableBrowser();
+    if (available) {
+      const waiter = waitQueue.shift()!;
+      clearTimeout(waiter.timer);
+      reserveSlot(available);
+      waiter.resolve(available);
+      continue;
+    }
+
+    if (browsers.length + pendingLaunches < config.maxBrowsers) {
+      const waiter = waitQueue.shift()!;
+      clearTimeout(waiter.timer);
+      launchBrowser().then(waiter.resolve, waiter.reject);
+      continue;
+    }
+
+    break;
+  }
+}
+
+/**
+ * Launches a new browser, registers it in the pool and reserves one page slot on it
+ * @returns The newly pooled browser
+ */
+async function launchBrowser(): Promise<PooledBrowser> {
+  pendingLaunches += 1;
+
+  let browser: Browser;
+  try {
+    // Launch puppeteer with stealth plugin and respect headless configuration
+    browser = await puppeteerExtra.launch({
+      headless: config.headless ? "new" : false, // Use config.headless setting
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+  } catch (error) {
+    pendingLaunches -= 1;
+    drainWaitQueue();
+    throw error;
+  }
+
+  pendingLaunches -= 1;
+  const entry: PooledBrowser = { browser, activePages: 1, lastUsed: Date.now() };
+  browsers.push(entry);
+  console.log(`Launched pooled browser (${browsers.length}/${config.maxBrowsers})`);
+
+  // Crash detection: drop the browser from the pool so the next request relaunches one
+  browser.on('disconnected', () => {
+    const index = browsers.indexOf(entry);
+    if (index !== -1) {
+      browsers.splice(index, 1);
+      console.error(`Pooled browser disconnected, removed from pool (${browsers.length} remaining)`);
+      drainWaitQueue();
+    }
+  });
+
+  startIdleReaper();
+  return entry;
+}
+
+/**
+ * Starts the periodic check that closes browsers which have been idle for too long
+ */
+function startIdleReaper(): void {
+  if (reaperTimer) {
+    return;
+  }
+
+  reaperTimer = setInterval(() => {
+    const now = Date.now();
+    for (const entry of [...browsers]) {
+      if (entry.activePages === 0 && now - entry.lastUsed >= config.browserIdleTimeout) {
+        browsers.splice(browsers.indexOf(entry), 1);
+        console.log(`Closing browser idle for ${now - entry.lastUsed}ms (${browsers.length} remaining)`);
+        entry.browser.close().catch((error) => {
+          console.error('Error closing idle browser:', error);
+        });
+      }
+    }
+
+    if (browsers.length === 0 && reaperTimer) {
+      clearInterval(reaperTimer);
+      reaperTimer = undefined;
+    }
+  }, Math.min(config.browserIdleTimeout, 10000));
+
+  // Do not keep the process alive just for the reaper
+  reaperTimer.unref();
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { Page } from 'puppeteer';
+
+import { trackDialogs } from '../ai/page-interactions.js';
+import { applyBrowserContext } from './browser-context.js';
+import { acquirePage, releasePage } from './browser-pool.js';
+import { installNavigationGuard } from './navigation-policy.js';
+import { selectProxy } from './proxy-pool.js';
+import { createResourceFilter } from './resource-blocking.js';
+import { BrowserContextOptions, BrowserSession } from '../types/index.js';
+import { config } from '../config.js';
+
+const sessions = new Map<string, BrowserSession>();
+// Sessions still being opened per transport session, counted against MAX_SESSIONS_PER_CLIENT like open ones
+const opening = new Map<string | undefined, number>();
+let reaperTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Opens a new browsing session backed by a page borrowed from the browser pool
+ * @param transportSessionId The MCP transport session that owns the browsing session, if any
+ * @param browserContext Device, locale and identity settings for the session's page
+ * @param url The first URL the session will load, which cookies without url or domain apply to
+ * @param proxy A proxy URL for the session, instead of one from the proxy pool
+ * @returns The newly created session
+ * @throws If the transport session already has MAX_SESSIONS_PER_CLIENT sessions open
+ */
+export async function openSession(transportSessionId?: string, browserContext?: BrowserContextOptions, url?: string, proxy?: string): Promise<BrowserSession> {
+  // Each session holds a page of the shared pool until it is closed, so one client may not take them all
+  const owned = [...sessions.values()].filter(s => s.transportSessionId === transportSessionId).length;
+  const pending = opening.get(transportSessionId) ?? 0;
+  if (owned + pending >= config.maxSessionsPerClient) {
+    throw new Error(`Too many open browsing sessions: at most ${config.maxSessionsPerClient} per client, close one with close-session first`);
+  }
+
+  opening.set(transportSessionId, pending + 1);
+  let page: Page;
+  try {
+    page = await acquirePage(await selectProxy(url, proxy));
+    try {
+      await applyBrowserContext(page, browserContext, url);
+      await installNavigationGuard(page, createResourceFilter());
+      trackDialogs(page);
+    } catch (error) {
+      await releasePage(page);
+      throw error;
+    }
+  } finally {
+    const remaining = opening.get(transportSessionId)! - 1;
+    if (remaining > 0) {
+      opening.set(transportSessionId, remaining);
+    } else {
+      opening.delete(transportSessionId);
+    }
+  }
+
+  const now = Date.now();
+  const session: BrowserSession = {
+    id: randomUUID(),
+    page,
+    transportSessionId,
+    createdAt: now,
+    lastUsed: now,
+  };
+  sessions.set(session.id, session);
+  console.log(`Opened browsing session ${session.id}${transportSessionId ? ` for transport session ${transportSessionId}` : ''}`);
+
+  startIdleReaper();
+  return session;
+}
+
+/**
+ * Looks up a session and refreshes its idle timer
+ * @param sessionId The browsing session ID
+ * @param transportSessionId The MCP transport session making the request, if any
+ * @returns The session
+ * @throws If the session does not exist or belongs to another transport session
+ */
+export function getSession(sessionId: string, transportSessionId?: string): BrowserSession {
+  const session = sessions.get(sessionId);
+  if (!session || session.transportSessionId !== transportSessionId) {
+    throw new Error(`Unknown or expired session: ${sessionId}`);
+  }
+  if (session.page.isClosed()) {
+    sessions.delete(sessionId);
+    releasePage(session.page).catch(() => {});
+    throw new Error(`Session ${sessionId} was closed because its browser page is gone`);
+  }
+
+  session.lastUsed = Date.now();
+  return session;
+}
+
+/**
+ * Closes a session and returns its page to the browser pool
+ * @param sessionId The browsing session ID
+ * @param transportSessionId The MCP transport session making the request, if any
+ * @throws If the session does not exist or belongs to another transport session
+ */
+export async function closeSession(sessionId: string, transportSessionId?: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session || session.transportSessionId !== transportSessionId) {
+    throw new Error(`Unknown or expired session: ${sessionId}`);
+  }
+  await destroySession(session);
+}
+
+/**
+ * Closes every browsing session owned by a transport session, e.g. when the client disconnects
+ * @param transportSessionId The MCP transport session ID
+ */
+export async function closeSessionsForTransport(transportSessionId: string): Promise<void> {
+  const owned = [...sessions.values()].filter(s => s.transportSessionId === transportSessionId);
+  await Promise.all(owned.map(destroySession));
+}
+
+/**
+ * Closes all browsing sessions
+ */
+export async function closeAllSessions(): Promise<void> {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = undefined;
+  }
+  await Promise.all([...sessions.values()].map(destroySession));
+}
+
+/**
+ * Removes a session from the registry and releases its page
+ * @param session The session to destroy
+ */
+async function destroySession(session: BrowserSession): Promise<void> {
+  if (!sessions.delete(session.id)) {
+    return;
+  }
+  await releasePage(session.page);
+  console.log(`Closed browsing session ${session.id}`);
+}
+
+/**
+ * Starts the periodic check that expires sessions idle for longer than the configured timeout
+ */
+function startIdleReaper(): void {
+  if (reaperTimer) {
+    return;
+  }
+
+  reaperTimer = setInterval(() => {
+    const now = Date.now();
+    for (const session of [...sessions.values()]) {
+      if (now - session.lastUsed >= config.sessionIdleTimeout) {
+        console.log(`Expiring browsing session ${session.id} after ${now - session.lastUsed}ms idle`);
+        destroySession(session).catch((error) => {
+          console.error(`Error expiring session ${session.id}:`, error);
+        });
+      }
+    }
+
+    if (sessions.size === 0 && reaperTimer) {
+      clearInterval(reaperTimer);
+      reaperTimer = undefined;
+    }
+  }, Math.min(config.sessionIdleTimeout, 10000));
+
+  // Do not keep the process alive just for the reaper
+  reaperTimer.unref();
+}
@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { resolveBrowserContext } from './browser-context.js';
+import { guardedFetch } from './guarded-fetch.js';
+import { assertUrlAllowed } from './navigation-policy.js';
+import { selectProxy } from './proxy-pool.js';
+import { applyRobotsPolicy } from './robots-policy.js';
+import { visitWebPage } from './webpage-scraper.js';
+import { normalizeUrl } from '../utils/url-helpers.js';
+import { CacheEntry, CacheMode, ProxySettings, ScrapeResult, WebpageScrapeOptions } from '../types/index.js';
+import { config } from '../config.js';
+
+// In-memory entries, kept in least-recently-used order
+const memoryCache = new Map<string, CacheEntry>();
+// Called whenever a scrape stores new content in the cache
+const writeListeners = new Set<(entry: CacheEntry, replaced: boolean) => void>();
+
+/**
+ * Scrapes a webpage through the content cache, revalidating expired entries with ETag/Last-Modified when possible.
+ * Cached pages are only served while the navigation and robots policies still allow their URL.
+ * @param options Configuration options for the scraping operation
+ * @param mode Whether to use, bypass or refresh the cache
+ * @returns The scrape result, with cache information
+ */
+export async function cachedVisitWebPage(options: WebpageScrapeOptions, mode: CacheMode = 'use'): Promise<ScrapeResult> {
+  const key = getCacheKey(options);
+  let previous: CacheEntry | undefined;
+
+  if (config.cacheStore === 'off' || mode === 'bypass') {
+    const result = await visitWebPage(options);
+    return { ...result, cache: { status: 'bypass', key } };
+  }
+
+  if (mode === 'use') {
+    const entry = previous = await readEntry(key);
+    if (entry) {
+      // A hit makes no request to the site, so there is no crawl-delay to wait for; a revalidation does
+      const fresh = entry.expiresAt > Date.now();
+      let proxy: ProxySettings | undefined;
+      let warnings: string[];
+      try {
+        await assertUrlAllowed(options.url);
+        proxy = await selectProxy(options.url, options.proxy);
+        warnings = await applyRobotsPolicy(options.url, proxy, { waitForCrawlDelay: !fresh, signal: options.signal });
+      } catch (error: any) {
+        console.error(`Not serving the cached entry for ${options.url}: ${error.message}`);
+        return { error: { message: error.message } };
+      }
+      const result = warnings.length > 0
+        ? { ...entry.result, warnings: [...new Set([...(entry.result.warnings || []), ...warnings])] }
+        : entry.result;
+
+      if (fresh) {
+        console.log(`Cache hit for ${options.url}`);
+        return { ...result, cache: { status: 'hit', key, storedAt: entry.storedAt, expiresAt: entry.expiresAt } };
+      }
+
+      if (await isUnchanged(entry, proxy)) {
+        entry.expiresAt = Date.now() + config.cacheTtl;
+        await writeEntry(entry);
+        console.log(`Cache entry revalidated for ${options.url}`);
+        return { ...result, cache: { status: 'revalidated', key, storedAt: entry.storedAt, expiresAt: entry.expiresAt } };
+      }
+    }
+  }
+
+  const result = await visitWebPage(options);
+  if (result.error) {
+    return result;
+  }
+  if (mode === 'refresh') {
+    previous = await readEntry(key);
+  }
+
+  // Timings, network usage, the interaction log and the login describe this scrape only, not later cache hits
+  const { timings: _timings, network: _network, interactions: _interactions, login: _login, ...stored } = result;
+  const now = Date.now();
+  const entry: CacheEntry = { key, url: options.url, format: options.format || 'markdown', result: stored, storedAt: now, expiresAt: now + config.cacheTtl };
+  await writeEntry(entry);
+  for (const listener of writeListeners) {
+    listener(entry, previous !== undefined);
+  }
+
+  return { ...result, cache: { status: mode === 'refresh' ? 'refresh' : 'miss', key, storedAt: entry.storedAt, expiresAt: entry.expiresAt } };
+}
+
+/**
+ * Looks up a cache entry by key, whether or not it has expired
+ * @param key The cache key
+ * @returns The entry, or undefined if not cached
+ */
+export async function getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+  if (config.cacheStore === 'off' || !/^[0-9a-f]{64}$/.test(key)) {
+    return undefined;
+  }
+  return readEntry(key);
+}
+
+/**
+ * Lists every entry of the configured store, most recently stored first
+ * @returns The cache entries
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  if (config.cacheStore === 'off') {
+    return [];
+  }
+
+  let entries: CacheEntry[];
+  if (config.cacheStore === 'disk') {
+    let files: string[];
+    try {
+      files = (await fs.promises.readdir(config.cacheDir)).filter(file => file.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    const read = await Promise.all(files.map(file => readEntry(file.slice(0, -'.json'.length))));
+    entries = read.filter((entry): entry is CacheEntry => entry !== undefined);
+  } else {
+    entries = [...memoryCache.values()];
+  }
+
+  return entries.sort((a, b) => b.storedAt - a.storedAt);
+}
+
+/**
+ * Registers a listener called whenever a scrape stores new content in the cache
+ * @param listener Receives the new entry and whether it replaced an existing one
+ * @returns Removes the listener
+ */
+export function onCacheEntryWritten(listener: (entry: CacheEntry, replaced: boolean) => void): () => void {
+  writeListeners.add(listener);
+  return () => writeListeners.delete(listener);
+}
+
+/**
+ * Computes the cache key of a scrape: the normalized URL plus every option that changes the output
+ * @param options Configuration options for the scraping operation
+ * @returns The hex-encoded key
+ */
+function getCacheKey({
+  url,
+  browserContext,
+  proxy,
+  blocking,
+  fast = false,
+  dryRun = false,
+  waitFor,
+  expand,
+  format = 'markdown',
+  autoInteract = true,
+  maxInteractionAttempts = 3,
+  waitForNetworkIdle = true,
+  collectLinks = false,
+}: WebpageScrapeOptions): string {
+  const identity = JSON.stringify({
+    url: normalizeUrl(url) || url,
+    browserContext: resolveBrowserContext(browserContext),
+    proxy,
+    blocking,
+    fast,
+    dryRun,
+    waitFor,
+    expand,
+    format,
+    autoInteract,
+    maxInteractionAttempts,
+    waitForNetworkIdle,
+    collectLinks,
+  });
+  return createHash('sha256').update(identity).digest('hex');
+}
+
+/**
+ * Asks the origin whether an expired entry is still current, using a conditional request under the navigation policy,
+ * through the proxy a scrape of the page would use
+ * @param entry The expired cache entry
+ * @param proxy The proxy selected for the scrape, if any
+ * @returns Whether the origin answered 304 Not Modified
+ */
+async function isUnchanged(entry: CacheEntry, proxy?: ProxySettings): Promise<boolean> {
+  const { etag, lastModified } = entry.result;
+  if (!etag && !lastModified) {
+    return false;
+  }
+
+  try {
+    const headers: Record<string, string> = {};
+    if (etag) headers['if-none-match'] = etag;
+    if (lastModified) headers['if-modified-since'] = lastModified;
+
+    const response = await guardedFetch(entry.url, { headers, proxy, signal: AbortSignal.timeout(10000) });
+    return response.status === 304;
+  } catch (error) {
+    console.error(`Error revalidating cache entry for ${entry.url}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Reads an entry from the configured store
+ * @param key The cache key
+ * @returns The entry, or undefined if not cached
+ */
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  if (config.cacheStore === 'disk') {
+    try {
+      const json = await fs.promises.readFile(entryPath(key), 'utf8');
+      return JSON.parse(json) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const entry = memoryCache.get(key);
+  if (entry) {
+    // Move to the most recently used position
+    memoryCache.delete(key);
+    memoryCache.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Writes an entry to the configured store, evicting the least recently used entries from memory when full
+ * @param entry The entry to store
+ */
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  if (config.cacheStore === 'disk') {
+    try {
+      await fs.promises.mkdir(config.cacheDir, { recursive: true });
+      await fs.promises.writeFile(entryPath(entry.key), JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Error writing cache entry for ${entry.url}:`, error);
+    }
+    return;
+  }
+
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+  while (memoryCache.size > config.cacheMaxEntries) {
+    const oldest = memoryCache.keys().next().value as string;
+    memoryCache.delete(oldest);
+  }
+}
+
+/**
+ * Returns the file path of a disk cache entry
+ * @param key The cache key
+ * @returns The absolute file path
+ */
+function entryPath(key: string): string {
+  return path.join(config.cacheDir, `${key}.json`);
+}
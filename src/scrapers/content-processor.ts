@@ -3,15 +3,23 @@ import { Readability } from '@mozilla/readability';
 import sanitizeHtml from 'sanitize-html';
 import { configureTurndownService } from '../utils/markdown-formatters.js';
 import { markCodeParents } from '../utils/html-helpers.js';
+import { splitMarkdownSections } from '../utils/markdown-sections.js';
+import { OutputFormat, PageLink, PageMetadata, ProcessedContent, StructuredPage } from '../types/index.js';
 
 /**
- * Processes HTML content to extract the main content and convert it to Markdown
+ * Processes HTML content to extract the main content and convert it to the requested format
  * @param htmlContent The raw HTML content to process
- * @returns Markdown formatted content
+ * @param format The output format, markdown by default
+ * @param url The page URL, used to resolve relative links
+ * @returns The formatted content and the article metadata
  */
-export async function processHtmlContent(htmlContent: string): Promise<string> {
+export async function processHtmlContent(
+  htmlContent: string,
+  format: OutputFormat = 'markdown',
+  url?: string
+): Promise<ProcessedContent> {
   // Create DOM
-  const dom = new JSDOM(htmlContent);
+  const dom = new JSDOM(htmlContent, url ? { url } : undefined);
   const document = dom.window.document;
 
   // Mark code blocks to influence Readability scoring
@@ -45,7 +53,17 @@ export async function processHtmlContent(htmlContent: string): Promise<string> {
   if (!article) {
     throw new Error('Failed to parse the article content.');
   }
-  
+
+  const metadata: PageMetadata = {
+    url,
+    title: article.title || undefined,
+    byline: article.byline || undefined,
+    excerpt: article.excerpt || undefined,
+    siteName: article.siteName || undefined,
+    lang: article.lang || undefined,
+    publishedTime: article.publishedTime || undefined,
+  };
+
   const cleanHtml = sanitizeHtml(article.content, {
     allowedTags: [
       'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'a', 'ul', 'ol',
@@ -61,8 +79,78 @@ export async function processHtmlContent(htmlContent: string): Promise<string> {
     }
   });
 
+  if (format === 'html') {
+    return { content: cleanHtml, metadata };
+  }
+
+  if (format === 'text') {
+    return { content: htmlToPlainText(cleanHtml), metadata };
+  }
+
   const turndownService = configureTurndownService();
   const markdown = turndownService.turndown(cleanHtml);
+
+  if (format === 'json') {
+    const structured: StructuredPage = {
+      metadata,
+      sections: splitMarkdownSections(markdown),
+      links: extractLinks(cleanHtml, url),
+      markdown,
+    };
+    return { content: JSON.stringify(structured, null, 2), metadata };
+  }
   
-  return markdown;
-}
\ No newline at end of file
+  return { content: markdown, metadata };
+}
+
+/**
+ * Converts sanitized HTML to plain text, keeping paragraph and line breaks between block elements
+ * @param html The sanitized article HTML
+ * @returns The plain text
+ */
+function htmlToPlainText(html: string): string {
+  const document = new JSDOM(html).window.document;
+
+  document.querySelectorAll('h1, h2, h3, h4, h5, h6, p, pre, ul, ol, table, div').forEach(el => {
+    el.append(document.createTextNode('\n\n'));
+  });
+  document.querySelectorAll('li, tr').forEach(el => {
+    el.append(document.createTextNode('\n'));
+  });
+  document.querySelectorAll('td, th').forEach(el => {
+    el.append(document.createTextNode('\t'));
+  });
+
+  return (document.body.textContent || '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Collects the unique links of the sanitized article HTML, resolved against the page URL
+ * @param html The sanitized article HTML
+ * @param url The page URL
+ * @returns The links in document order
+ */
+function extractLinks(html: string, url?: string): PageLink[] {
+  const document = new JSDOM(html).window.document;
+  const links: PageLink[] = [];
+  const seen = new Set<string>();
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    let href = anchor.getAttribute('href') || '';
+    try {
+      href = new URL(href, url).href;
+    } catch {
+      // Keep relative links as-is when there is no base URL to resolve them against
+    }
+    if (!href || href.startsWith('javascript:') || seen.has(href)) {
+      return;
+    }
+    seen.add(href);
+    links.push({ text: (anchor.textContent || '').replace(/\s+/g, ' ').trim(), href });
+  });
+
+  return links;
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+
+import { decryptText } from '../utils/encryption.js';
+import { config } from '../config.js';
+import { LoginCredentials, LoginProfile } from '../types/index.js';
+
+// Decrypted vault entries by name, read on first use
+let vaultEntries: Record<string, Partial<LoginCredentials>> | undefined;
+
+/**
+ * Reads the credentials of a login profile, from the environment variables it names or else from its vault entry.
+ * Errors name the variable or entry, never a value.
+ * @param profile The login profile
+ * @returns The username and password
+ * @throws If a variable is not set, the vault cannot be read, or the entry is missing or incomplete
+ */
+export async function getCredentials(profile: LoginProfile): Promise<LoginCredentials> {
+  if (profile.usernameEnv && profile.passwordEnv) {
+    const username = process.env[profile.usernameEnv];
+    const password = process.env[profile.passwordEnv];
+    for (const [name, value] of [[profile.usernameEnv, username], [profile.passwordEnv, password]]) {
+      if (!value) {
+        throw new Error(`Login to ${profile.domain} failed: environment variable ${name} is not set`);
+      }
+    }
+    return { username: username!, password: password! };
+  }
+
+  const entries = await loadVault();
+  const entry = Object.prototype.hasOwnProperty.call(entries, profile.credential!) ? entries[profile.credential!] : undefined;
+  if (typeof entry?.username !== 'string' || typeof entry.password !== 'string') {
+    throw new Error(`Login to ${profile.domain} failed: the vault has no username and password for "${profile.credential}"`);
+  }
+  return { username: entry.username, password: entry.password };
+}
+
+/**
+ * Reads and decrypts CREDENTIAL_VAULT with CREDENTIAL_VAULT_KEY, once
+ * @returns The vault entries by name
+ * @throws If the vault is not configured, cannot be read or decrypted, or is not a JSON object
+ */
+async function loadVault(): Promise<Record<string, Partial<LoginCredentials>>> {
+  if (vaultEntries) {
+    return vaultEntries;
+  }
+  if (!config.credentialVault || !config.credentialVaultKey) {
+    throw new Error('Login credentials from the vault require CREDENTIAL_VAULT and CREDENTIAL_VAULT_KEY to be configured');
+  }
+
+  let plaintext: string;
+  try {
+    plaintext = decryptText(await fs.promises.readFile(config.credentialVault, 'utf8'), config.credentialVaultKey);
+  } catch (error: any) {
+    throw new Error(`Could not read the credential vault ${config.credentialVault}: ${error.message}`);
+  }
+
+  // JSON errors quote the text they fail on, which would reveal secrets, so they are replaced
+  let entries: unknown;
+  try {
+    entries = JSON.parse(plaintext);
+  } catch {
+    entries = undefined;
+  }
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error(`The credential vault ${config.credentialVault} must contain a JSON object of entries`);
+  }
+  vaultEntries = entries as Record<string, Partial<LoginCredentials>>;
+  return vaultEntries;
+}
@@ -0,0 +1,477 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ElementHandle, JSHandle, Page, Protocol } from 'puppeteer';
+
+import { getCredentials } from './credential-vault.js';
+import { assertUrlAllowed } from './navigation-policy.js';
+import { trackProxyHealth } from './proxy-pool.js';
+import { applyInteractionHeuristics } from '../ai/heuristics.js';
+import { captureMarkedScreenshot, getMarkedElement } from '../ai/element-marks.js';
+import { locateLoginFieldsWithAI } from '../ai/vision-analyzer.js';
+import { decryptText, encryptText } from '../utils/encryption.js';
+import { matchesHostPattern } from '../utils/url-helpers.js';
+import { waitForDomStable } from '../utils/page-waits.js';
+import { config } from '../config.js';
+import { BrowserCookie, LoginProfile, LoginSummary, OperationHooks, StorageState } from '../types/index.js';
+
+// Password fields of login forms; fields for a new password belong to sign-up and reset forms
+const PASSWORD_SELECTOR = 'input[type="password"]:not([autocomplete="new-password"])';
+
+// The cookies of a successful login, kept in memory and in LOGIN_STATE_DIR until they expire
+interface StoredLogin {
+  profile: string;
+  savedAt: number;
+  expiresAt: number;
+  state: StorageState;
+}
+
+// The elements of a login form; the password field may only appear after the username is submitted
+interface LoginFields {
+  username?: ElementHandle<Element>;
+  password?: ElementHandle<Element>;
+  submit?: ElementHandle<Element>;
+}
+
+// Stored logins by profile key
+const storedLogins = new Map<string, StoredLogin>();
+// Logins in progress by profile key, which concurrent pages of the same site wait for instead of logging in again
+const pendingLogins = new Map<string, Promise<StoredLogin>>();
+
+/**
+ * Finds the login profile for a URL, the first one in LOGIN_PROFILES whose domain matches its host
+ * @param url The URL about to be loaded
+ * @returns The profile, or undefined when the site needs no login
+ */
+export function getLoginProfile(url: string): LoginProfile | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  return config.loginProfiles.find(profile => matchesHostPattern(hostname, profile.domain));
+}
+
+/**
+ * Authenticates a page before it loads a site: restores the cookies of an earlier login while they are valid,
+ * or else runs the login flow of the profile and stores the cookies it set
+ * @param page Puppeteer page instance, before it navigates to the site
+ * @param profile The login profile of the site
+ * @param options Whether stored cookies may be reused, and the cancellation and progress reporting of the operation
+ * @returns How the page was authenticated
+ * @throws If the login fails or the signal aborts
+ */
+export async function prepareLogin(
+  page: Page,
+  profile: LoginProfile,
+  { reuse = true, signal, onProgress }: OperationHooks & { reuse?: boolean } = {}
+): Promise<LoginSummary> {
+  const key = getProfileKey(profile);
+  const pending = pendingLogins.get(key);
+  if (pending) {
+    onProgress?.(`Waiting for the login to ${profile.domain}`);
+    return restoreLogin(page, await pending, 'reused');
+  }
+
+  if (reuse) {
+    const stored = await readStoredLogin(key);
+    if (stored) {
+      console.log(`Reusing the login to ${profile.domain} until ${new Date(stored.expiresAt).toISOString()}`);
+      return restoreLogin(page, stored, 'reused');
+    }
+  } else {
+    await forgetLogin(key);
+  }
+
+  const login = logIn(page, profile, { signal, onProgress }).finally(() => pendingLogins.delete(key));
+  pendingLogins.set(key, login);
+  const stored = await login;
+  await writeStoredLogin(key, stored);
+  return { profile: profile.domain, status: 'loggedIn', expiresAt: stored.expiresAt };
+}
+
+/**
+ * Recognizes a page that was sent to the login form of its profile instead of the requested URL, which means the
+ * site no longer accepts the stored cookies
+ * @param page Puppeteer page instance, after navigating to the URL
+ * @param profile The login profile of the site
+ * @param url The requested URL
+ * @returns Whether the page shows the login URL although another URL was requested
+ */
+export function isLoginPage(page: Page, profile: LoginProfile, url: string): boolean {
+  const withoutQuery = (value: string) => {
+    try {
+      const parsed = new URL(value);
+      return `${parsed.origin}${parsed.pathname}`;
+    } catch {
+      return value;
+    }
+  };
+  const loginPage = withoutQuery(profile.loginUrl);
+  return withoutQuery(page.url()) === loginPage && withoutQuery(url) !== loginPage;
+}
+
+/**
+ * Runs the login flow of a profile: opens the login URL, fills the username and password (in one or two steps),
+ * submits the form and waits for the success check. The credentials are typed into the page only; they are
+ * never logged, and the vision model only sees the form before anything is typed.
+ * @param page Puppeteer page instance
+ * @param profile The login profile
+ * @param hooks Cancellation and progress reporting of the operation
+ * @returns The cookies set by the login, with their expiry
+ * @throws If the form cannot be found, the success check does not pass in time, or the signal aborts
+ */
+async function logIn(page: Page, profile: LoginProfile, { signal, onProgress }: OperationHooks): Promise<StoredLogin> {
+  const credentials = await getCredentials(profile);
+  await assertUrlAllowed(profile.loginUrl);
+  signal?.throwIfAborted();
+
+  console.log(`Logging in to ${profile.domain} at ${profile.loginUrl}`);
+  onProgress?.(`Logging in to ${profile.domain}`);
+  await trackProxyHealth(page, () => page.goto(profile.loginUrl, { waitUntil: 'networkidle2', timeout: config.navigationTimeout }));
+  await waitForDomStable(page, { signal });
+  if (config.enableHeuristics) {
+    // Consent banners often cover the login form
+    await applyInteractionHeuristics(page);
+  }
+  const cookiesBefore = await getContextCookies(page);
+
+  const fields = await findLoginFields(page, profile, signal);
+  if (!fields.username && !fields.password) {
+    throw new Error(`Login to ${profile.domain} failed: no login form found at ${profile.loginUrl}`);
+  }
+  if (fields.username) {
+    await typeInto(fields.username, credentials.username);
+  }
+  if (!fields.password) {
+    // Two-step forms ask for the password once the username is submitted
+    onProgress?.(`Submitting the username to ${profile.domain}`);
+    await submitForm(page, fields.submit, fields.username!, signal);
+    fields.password = await waitForElement(page, profile.passwordSelector || PASSWORD_SELECTOR, 'password field', profile, signal);
+    fields.submit = profile.submitSelector ? await page.$(profile.submitSelector) ?? undefined : await findSubmitButton(fields.password);
+  }
+  await typeInto(fields.password, credentials.password);
+  await submitForm(page, fields.submit, fields.password, signal);
+  await waitForLoginSuccess(page, profile, signal);
+
+  // Keep only what the login changed, not the cookies of the request's browser context
+  const known = new Set(cookiesBefore.map(getCookieIdentity));
+  const cookies = (await getContextCookies(page)).filter(cookie => !known.has(getCookieIdentity(cookie)));
+  const now = Date.now();
+  const expiries = cookies.filter(cookie => cookie.expires !== undefined).map(cookie => cookie.expires! * 1000);
+  const expiresAt = Math.min(now + config.loginSessionTtl, ...expiries);
+  console.log(`Logged in to ${profile.domain}: ${cookies.length} cookie(s) stored until ${new Date(expiresAt).toISOString()}`);
+  return { profile: profile.domain, savedAt: now, expiresAt, state: { cookies } };
+}
+
+/**
+ * Finds the username and password fields and the submit button: by the selectors of the profile, by the usual
+ * attributes of login forms, or else by asking the vision model about a marked screenshot of the empty form
+ * @param page Puppeteer page instance, on the login page
+ * @param profile The login profile
+ * @param signal The abort signal of the operation
+ * @returns The elements found
+ * @throws If a configured username selector matches no visible element in time
+ */
+async function findLoginFields(page: Page, profile: LoginProfile, signal?: AbortSignal): Promise<LoginFields> {
+  const fields: LoginFields = {};
+  if (profile.usernameSelector) {
+    fields.username = await waitForElement(page, profile.usernameSelector, 'username field', profile, signal);
+  }
+  const found = !profile.usernameSelector || !profile.passwordSelector ? await findFieldsByAttributes(page) : {};
+  fields.username ??= found.username;
+  fields.password = profile.passwordSelector ? await page.$(profile.passwordSelector) ?? undefined : found.password;
+
+  if (!fields.username && !profile.usernameSelector && config.enableElementMarks) {
+    const { screenshot, elements } = await captureMarkedScreenshot(page);
+    const located = await locateLoginFieldsWithAI(screenshot, elements, undefined, signal);
+    fields.username = located.usernameId !== undefined ? getMarkedElement(page, located.usernameId) : undefined;
+    if (!profile.passwordSelector) {
+      fields.password ??= located.passwordId !== undefined ? getMarkedElement(page, located.passwordId) : undefined;
+    }
+    fields.submit = located.submitId !== undefined ? getMarkedElement(page, located.submitId) : undefined;
+  }
+
+  if (profile.submitSelector) {
+    fields.submit = await page.$(profile.submitSelector) ?? undefined;
+  }
+  fields.submit ??= await findSubmitButton(fields.password ?? fields.username);
+  return fields;
+}
+
+/**
+ * Finds the fields of a login form by their type, autocomplete hint and name: the visible password field, and the
+ * username or email field before it in the same form
+ * @param page Puppeteer page instance
+ * @returns The elements found
+ */
+async function findFieldsByAttributes(page: Page): Promise<LoginFields> {
+  const found: JSHandle<(Element | null)[]> = await page.evaluateHandle((passwordSelector) => {
+    const isUsable = (el: Element) => el.getClientRects().length > 0
+      && window.getComputedStyle(el).visibility !== 'hidden' && !(el as HTMLInputElement).disabled;
+    const password = (Array.from(document.querySelectorAll(passwordSelector)) as HTMLInputElement[]).find(isUsable) ?? null;
+
+    const candidates = (Array.from((password?.form ?? document).querySelectorAll('input')) as HTMLInputElement[])
+      .filter(el => ['text', 'email', 'tel'].includes(el.type) && isUsable(el));
+    const username = candidates.find(el => /(^|\s)(username|email)$/.test(el.autocomplete))
+      ?? candidates.find(el => el.type === 'email')
+      ?? (password
+        ? candidates.filter(el => el.compareDocumentPosition(password) & Node.DOCUMENT_POSITION_FOLLOWING).pop()
+        : candidates.find(el => /user|login|e-?mail|account|identifier/i.test(`${el.name} ${el.id}`)))
+      ?? null;
+    return [username, password];
+  }, PASSWORD_SELECTOR);
+
+  try {
+    const properties = await found.getProperties();
+    const toElement = (index: number) => properties.get(String(index))?.asElement() as ElementHandle<Element> | null | undefined;
+    return { username: toElement(0) ?? undefined, password: toElement(1) ?? undefined };
+  } finally {
+    await found.dispose();
+  }
+}
+
+/**
+ * Finds the visible submit button of the form a field belongs to
+ * @param field The username or password field
+ * @returns The button, or undefined when the form has none and is submitted with Enter
+ */
+async function findSubmitButton(field: ElementHandle<Element> | undefined): Promise<ElementHandle<Element> | undefined> {
+  if (!field) {
+    return undefined;
+  }
+  const button = await field.evaluateHandle((el) => {
+    const form = (el as HTMLInputElement).form;
+    const buttons = form ? Array.from(form.querySelectorAll('button[type="submit"], input[type="submit"], button:not([type])')) : [];
+    return buttons.find(candidate => candidate.getClientRects().length > 0) ?? null;
+  });
+  const element = button.asElement() as ElementHandle<Element> | null;
+  if (!element) {
+    await button.dispose();
+  }
+  return element ?? undefined;
+}
+
+/**
+ * Waits for a visible element of the login form
+ * @param page Puppeteer page instance
+ * @param selector The CSS selector of the element
+ * @param description What the element is, for the error message
+ * @param profile The login profile
+ * @param signal The abort signal of the operation
+ * @returns The element
+ * @throws If no visible element matches within NAVIGATION_TIMEOUT
+ */
+async function waitForElement(
+  page: Page,
+  selector: string,
+  description: string,
+  profile: LoginProfile,
+  signal?: AbortSignal
+): Promise<ElementHandle<Element>> {
+  try {
+    const element = await page.waitForSelector(selector, { visible: true, timeout: config.navigationTimeout, signal });
+    if (element) {
+      return element;
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (!(error instanceof Error && error.name === 'TimeoutError')) {
+      throw error;
+    }
+  }
+  throw new Error(`Login to ${profile.domain} failed: no ${description} matching "${selector}" appeared within ${config.navigationTimeout}ms`);
+}
+
+/**
+ * Replaces the value of a field with a credential. Errors are rethrown without the value.
+ * @param field The input field
+ * @param value The username or password
+ */
+async function typeInto(field: ElementHandle<Element>, value: string): Promise<void> {
+  await field.evaluate((el) => {
+    (el as HTMLInputElement).value = '';
+  });
+  await field.focus();
+  await field.type(value, { delay: 20 });
+}
+
+/**
+ * Submits a login form with its button, or by pressing Enter in the last field, and waits for the page to react
+ * @param page Puppeteer page instance
+ * @param submit The submit button, if any
+ * @param field The field filled last
+ * @param signal The abort signal of the operation
+ */
+async function submitForm(page: Page, submit: ElementHandle<Element> | undefined, field: ElementHandle<Element>, signal?: AbortSignal): Promise<void> {
+  if (submit) {
+    await submit.click();
+  } else {
+    await field.press('Enter');
+  }
+  await waitForDomStable(page, { quietMs: 1000, timeoutMs: 5000, signal });
+}
+
+/**
+ * Waits until the success check of the profile passes: its selector is visible, the URL contains its url and the page
+ * shows its text. Without a check, the login succeeds once no password field is visible anymore.
+ * @param page Puppeteer page instance, after submitting the form
+ * @param profile The login profile
+ * @param signal The abort signal of the operation
+ * @throws If the check does not pass within NAVIGATION_TIMEOUT
+ */
+async function waitForLoginSuccess(page: Page, profile: LoginProfile, signal?: AbortSignal): Promise<void> {
+  const check = profile.success || {};
+  try {
+    await page.waitForFunction(
+      (success: NonNullable<LoginProfile['success']>, passwordSelector: string) => {
+        const isVisible = (el: Element | null) => !!el && el.getClientRects().length > 0 && window.getComputedStyle(el).visibility !== 'hidden';
+        if (!success.selector && !success.url && !success.text) {
+          return !Array.from(document.querySelectorAll(passwordSelector)).some(isVisible);
+        }
+        return (!success.selector || isVisible(document.querySelector(success.selector)))
+          && (!success.url || window.location.href.includes(success.url))
+          && (!success.text || (!!document.body && document.body.innerText.includes(success.text)));
+      },
+      { timeout: config.navigationTimeout, polling: 250, signal },
+      check,
+      profile.passwordSelector || PASSWORD_SELECTOR
+    );
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      const expected = [
+        check.selector && `selector "${check.selector}"`,
+        check.url && `URL containing "${check.url}"`,
+        check.text && `text "${check.text}"`,
+      ].filter(Boolean).join(', ') || 'the password field to disappear';
+      throw new Error(`Login to ${profile.domain} failed: expected ${expected} within ${config.navigationTimeout}ms, the page shows ${page.url()}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads every cookie of the page's isolated browser context, whichever site set it
+ * @param page Puppeteer page instance
+ * @returns The cookies, with session cookies lacking an expiry
+ */
+async function getContextCookies(page: Page): Promise<BrowserCookie[]> {
+  const session = await page.browser().target().createCDPSession();
+  try {
+    const { cookies } = await session.send('Storage.getCookies', { browserContextId: page.browserContext().id });
+    return cookies.map((cookie: Protocol.Network.Cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.session || cookie.expires < 0 ? undefined : cookie.expires,
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+    }));
+  } finally {
+    await session.detach();
+  }
+}
+
+/**
+ * Identifies a cookie with its value, so that cookies replaced by the login count as new
+ * @param cookie The cookie
+ * @returns The identity
+ */
+function getCookieIdentity(cookie: BrowserCookie): string {
+  return JSON.stringify([cookie.name, cookie.domain, cookie.path, cookie.value]);
+}
+
+/**
+ * Sets the stored cookies of a login on a page, leaving out those that expired since
+ * @param page Puppeteer page instance
+ * @param stored The stored login
+ * @param status How the login is reported
+ * @returns The login summary
+ */
+async function restoreLogin(page: Page, stored: StoredLogin, status: LoginSummary['status']): Promise<LoginSummary> {
+  const now = Date.now();
+  const cookies = (stored.state.cookies || []).filter(cookie => cookie.expires === undefined || cookie.expires * 1000 > now);
+  if (cookies.length > 0) {
+    await page.setCookie(...cookies);
+  }
+  return { profile: stored.profile, status, expiresAt: stored.expiresAt };
+}
+
+/**
+ * Identifies the stored login of a profile: the same site with another account or login page starts afresh
+ * @param profile The login profile
+ * @returns The hex-encoded key
+ */
+function getProfileKey(profile: LoginProfile): string {
+  return createHash('sha256')
+    .update(JSON.stringify([profile.domain, profile.loginUrl, profile.credential, profile.usernameEnv]))
+    .digest('hex');
+}
+
+/**
+ * Returns the path of the file that keeps a stored login
+ * @param key The profile key
+ * @returns The file path in LOGIN_STATE_DIR
+ */
+function loginPath(key: string): string {
+  return path.join(config.loginStateDir, `${key}.json`);
+}
+
+/**
+ * Looks up the stored login of a profile, in memory or else on disk, and discards it once it expired
+ * @param key The profile key
+ * @returns The stored login, or undefined when there is none that is still valid
+ */
+async function readStoredLogin(key: string): Promise<StoredLogin | undefined> {
+  let stored = storedLogins.get(key);
+  if (!stored) {
+    try {
+      const content = await fs.promises.readFile(loginPath(key), 'utf8');
+      stored = JSON.parse(config.credentialVaultKey ? decryptText(content, config.credentialVaultKey) : content) as StoredLogin;
+      storedLogins.set(key, stored);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        // E.g. a file encrypted with another CREDENTIAL_VAULT_KEY; logging in again replaces it
+        console.error(`Ignoring the stored login ${loginPath(key)}: ${error.message}`);
+      }
+      return undefined;
+    }
+  }
+
+  if (stored.expiresAt <= Date.now()) {
+    await forgetLogin(key);
+    return undefined;
+  }
+  return stored;
+}
+
+/**
+ * Stores the cookies of a login in memory and in LOGIN_STATE_DIR, readable by the owner only and encrypted
+ * with CREDENTIAL_VAULT_KEY when it is set
+ * @param key The profile key
+ * @param stored The stored login
+ */
+async function writeStoredLogin(key: string, stored: StoredLogin): Promise<void> {
+  storedLogins.set(key, stored);
+  try {
+    const json = JSON.stringify(stored);
+    await fs.promises.mkdir(config.loginStateDir, { recursive: true, mode: 0o700 });
+    await fs.promises.writeFile(loginPath(key), config.credentialVaultKey ? encryptText(json, config.credentialVaultKey) : json, { mode: 0o600 });
+  } catch (error) {
+    // The login still applies to this server's lifetime
+    console.error(`Failed to store the login to ${stored.profile}:`, error);
+  }
+}
+
+/**
+ * Discards the stored login of a profile
+ * @param key The profile key
+ */
+async function forgetLogin(key: string): Promise<void> {
+  storedLogins.delete(key);
+  await fs.promises.rm(loginPath(key), { force: true }).catch(() => {});
+}
@@ -0,0 +1,231 @@
+import dns from 'dns';
+import net from 'net';
+import { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+
+import { getPageProxy } from './browser-pool.js';
+import { matchesHostPattern } from '../utils/url-helpers.js';
+import { config } from '../config.js';
+import { RequestFilter } from '../types/index.js';
+
+// Addresses that must never be reached unless ALLOW_PRIVATE_NETWORKS is set: loopback, private,
+// link-local (including cloud metadata endpoints), carrier-grade NAT, multicast and reserved ranges
+const privateNetworks = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  privateNetworks.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  privateNetworks.addSubnet(address, prefix, 'ipv6');
+}
+
+// Schemes that never reach the network, allowed for subresources only
+const LOCAL_SUBRESOURCE_SCHEMES = ['data:', 'blob:', 'about:'];
+
+// Resolved addresses per hostname, so that subresources do not trigger a DNS lookup each
+const resolvedHosts = new Map<string, { addresses: string[]; expiresAt: number }>();
+const DNS_CACHE_TTL = 60 * 1000;
+
+// Pages that already have the guard installed
+const guardedPages = new WeakSet<Page>();
+// Violations detected from response addresses, per page
+const pageViolations = new WeakMap<Page, string>();
+
+/**
+ * Checks a URL against the navigation policy: scheme allowlist, host allow/deny lists and private address blocking after DNS resolution
+ * @param url The URL about to be visited
+ * @throws If the policy forbids the URL
+ */
+export async function assertUrlAllowed(url: string): Promise<void> {
+  const violation = await getPolicyViolation(url);
+  if (violation) {
+    throw new Error(`Blocked by navigation policy: ${violation}`);
+  }
+}
+
+/**
+ * Checks the host of a proxy given by a request: it must not be denied or resolve to a private address.
+ * ALLOWED_SCHEMES and ALLOWED_HOSTS do not apply, since they restrict pages rather than proxies.
+ * @param proxyUrl The proxy URL
+ * @throws If the policy forbids the proxy
+ */
+export async function assertProxyAllowed(proxyUrl: string): Promise<void> {
+  const hostname = new URL(proxyUrl).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const violation = config.deniedHosts.some(pattern => matchesHostPattern(hostname, pattern))
+    ? `proxy host ${hostname} is denied`
+    : await getAddressViolation(hostname);
+  if (violation) {
+    throw new Error(`Blocked by navigation policy: ${violation}`);
+  }
+}
+
+/**
+ * Applies the navigation policy to everything a page loads: redirects, frames and subresources are intercepted and
+ * aborted when they break the policy, and responses served from a private address are recorded as violations
+ * @param page Puppeteer page instance
+ * @param filter Blocks further requests, such as unwanted resource types or tracker domains
+ */
+export async function installNavigationGuard(page: Page, filter?: RequestFilter): Promise<void> {
+  if (guardedPages.has(page)) {
+    return;
+  }
+  guardedPages.add(page);
+
+  await page.setRequestInterception(true);
+  page.on('request', (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) {
+      return;
+    }
+
+    const blocked = filter?.(request);
+    if (blocked) {
+      request.abort('blockedbyclient').catch(() => {});
+      return;
+    }
+
+    const url = request.url();
+    const scheme = url.slice(0, url.indexOf(':') + 1).toLowerCase();
+    if (LOCAL_SUBRESOURCE_SCHEMES.includes(scheme) && !request.isNavigationRequest()) {
+      request.continue().catch(() => {});
+      return;
+    }
+
+    getPolicyViolation(url)
+      .then((violation) => {
+        if (violation) {
+          console.warn(`Navigation policy blocked ${request.resourceType()} request: ${violation}`);
+          return request.abort('blockedbyclient');
+        }
+        return request.continue();
+      })
+      .catch(() => {
+        // The request was already handled or the page closed in the meantime
+      });
+  });
+
+  // DNS may answer differently when the browser resolves the host itself, so check where responses actually came from.
+  // Behind a proxy the address is the proxy's, and the proxy resolves hosts, so only the checks before each request apply.
+  page.on('response', (response: HTTPResponse) => {
+    if (getPageProxy(page)) {
+      return;
+    }
+    const ip = response.remoteAddress().ip?.replace(/^\[|\]$/g, '');
+    if (ip && !config.allowPrivateNetworks && isPrivateAddress(ip)) {
+      const violation = `${response.url()} was served from private address ${ip}`;
+      console.warn(`Navigation policy violation: ${violation}`);
+      if (!pageViolations.has(page)) {
+        pageViolations.set(page, violation);
+      }
+    }
+  });
+}
+
+/**
+ * Throws if the guard saw a response from a private address since the last check, which indicates DNS rebinding
+ * @param page Puppeteer page instance
+ * @throws If such a response was seen
+ */
+export function assertNoGuardViolation(page: Page): void {
+  const violation = pageViolations.get(page);
+  if (violation) {
+    pageViolations.delete(page);
+    throw new Error(`Blocked by navigation policy: ${violation}`);
+  }
+}
+
+/**
+ * Checks an address the server itself is about to connect to, e.g. for robots.txt or cache revalidation
+ * @param address The resolved IPv4 or IPv6 address
+ * @returns Whether the policy allows connecting to it
+ */
+export function isAddressAllowed(address: string): boolean {
+  return config.allowPrivateNetworks || !isPrivateAddress(address);
+}
+
+/**
+ * Evaluates the navigation policy for a URL
+ * @param url The URL to check
+ * @returns A description of the violation, or undefined if the URL is allowed
+ */
+async function getPolicyViolation(url: string): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `invalid URL ${url}`;
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!config.allowedSchemes.includes(scheme)) {
+    return `scheme "${scheme}" is not allowed (${url})`;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!hostname) {
+    return `${url} has no host`;
+  }
+  if (config.deniedHosts.some(pattern => matchesHostPattern(hostname, pattern))) {
+    return `host ${hostname} is denied`;
+  }
+  if (config.allowedHosts.length > 0 && !config.allowedHosts.some(pattern => matchesHostPattern(hostname, pattern))) {
+    return `host ${hostname} is not in the allowed hosts`;
+  }
+  return getAddressViolation(hostname);
+}
+
+/**
+ * Checks that a host resolves to public addresses only, unless ALLOW_PRIVATE_NETWORKS is set
+ * @param hostname The lowercase hostname or IP literal
+ * @returns A description of the violation, or undefined if the host is allowed
+ */
+async function getAddressViolation(hostname: string): Promise<string | undefined> {
+  if (config.allowPrivateNetworks) {
+    return undefined;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(hostname);
+  } catch {
+    return `host ${hostname} could not be resolved`;
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? `host ${hostname} resolves to private address ${blocked}` : undefined;
+}
+
+/**
+ * Resolves a hostname to all of its addresses, with a short cache
+ * @param hostname The hostname or IP literal
+ * @returns The IP addresses
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  if (net.isIP(hostname)) {
+    return [hostname];
+  }
+
+  const now = Date.now();
+  const cached = resolvedHosts.get(hostname);
+  if (cached && cached.expiresAt > now) {
+    return cached.addresses;
+  }
+
+  const addresses = (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+  resolvedHosts.set(hostname, { addresses, expiresAt: now + DNS_CACHE_TTL });
+  return addresses;
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * @param address The IPv4 or IPv6 address
+ * @returns Whether the address is blocked
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return privateNetworks.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
@@ -0,0 +1,222 @@
+import { Page } from 'puppeteer';
+
+import { waitForDomStable } from '../utils/page-waits.js';
+import { config } from '../config.js';
+import { ExpansionOptions, ExpansionSummary, OperationHooks } from '../types/index.js';
+
+// Labels of "load more" buttons across languages, matched against the start of the normalized button text
+const LOAD_MORE_TEXTS = [
+  // English
+  'load more', 'show more', 'see more', 'view more', 'more results', 'show all', 'see all', 'view all', 'load all',
+  'more comments', 'more replies', 'older posts', 'read more',
+  // German
+  'mehr laden', 'mehr anzeigen', 'weitere laden', 'weitere anzeigen', 'alle anzeigen', 'weiterlesen',
+  // French
+  'voir plus', 'afficher plus', 'charger plus', 'plus de résultats', 'tout afficher', 'lire la suite',
+  // Spanish
+  'cargar más', 'ver más', 'mostrar más', 'ver todo', 'leer más',
+  // Italian
+  'carica altri', 'mostra altro', 'mostra di più', 'vedi altro', 'leggi di più',
+  // Portuguese
+  'carregar mais', 'ver mais', 'mostrar mais',
+  // Dutch
+  'meer laden', 'toon meer', 'meer weergeven', 'lees meer',
+];
+
+// Clickable elements that may be "load more" buttons
+const LOAD_MORE_SELECTOR = 'button, a, [role="button"], input[type="button"]';
+
+// Upper bound on collapsed sections opened per pass, so that huge FAQ pages do not stall the expansion
+const MAX_SECTIONS_PER_PASS = 50;
+
+/**
+ * Expands a page so that lazy-loaded and collapsed content ends up in its HTML: opens <details> and accordions,
+ * scrolls to the bottom until the document stops growing, and clicks "load more" buttons when scrolling brings
+ * nothing new. Stops at the step, time and height limits (EXPAND_MAX_* unless set by the request).
+ * @param page Puppeteer page instance
+ * @param options What to expand and the limits of the expansion
+ * @param hooks Cancellation and progress reporting of the operation
+ * @returns What was expanded and why the expansion stopped
+ * @throws If the signal aborts
+ */
+export async function expandPage(
+  page: Page,
+  {
+    scroll = true,
+    loadMore = false,
+    details = false,
+    maxSteps = config.expandMaxSteps,
+    maxTimeMs = config.expandMaxTime,
+    maxHeight = config.expandMaxHeight,
+  }: ExpansionOptions,
+  { signal, onProgress }: OperationHooks = {}
+): Promise<ExpansionSummary> {
+  const deadline = Date.now() + maxTimeMs;
+  const startUrl = page.url();
+  const summary: ExpansionSummary = { scrollSteps: 0, loadMoreClicks: 0, expandedSections: 0, finalHeight: 0, stopReason: 'complete' };
+
+  if (details) {
+    summary.expandedSections += await expandSections(page);
+  }
+
+  let size = await measureDocument(page);
+  while (scroll || loadMore) {
+    signal?.throwIfAborted();
+    if (size.height >= maxHeight) {
+      summary.stopReason = 'maxHeight';
+      break;
+    }
+    if (summary.scrollSteps + summary.loadMoreClicks >= maxSteps) {
+      summary.stopReason = 'maxSteps';
+      break;
+    }
+    if (Date.now() >= deadline) {
+      summary.stopReason = 'maxTime';
+      break;
+    }
+
+    // Scroll first, since infinite feeds grow by themselves; fall back to a button when the feed stops growing
+    let grown = false;
+    if (scroll) {
+      summary.scrollSteps += 1;
+      onProgress?.(`Scrolling to load more content (step ${summary.scrollSteps})`);
+      await page.evaluate(() => window.scrollTo(0, document.documentElement.scrollHeight));
+      grown = await waitForGrowth(page, size, deadline, signal);
+    }
+    if (!grown && loadMore && summary.scrollSteps + summary.loadMoreClicks < maxSteps) {
+      const clicked = await clickLoadMoreButton(page);
+      if (clicked) {
+        summary.loadMoreClicks += 1;
+        onProgress?.(`Clicked ${clicked}`);
+        grown = await waitForGrowth(page, size, deadline, signal);
+      }
+    }
+
+    if (page.url() !== startUrl) {
+      summary.stopReason = 'navigated';
+      break;
+    }
+    if (!grown) {
+      break;
+    }
+    size = await measureDocument(page);
+    if (details) {
+      summary.expandedSections += await expandSections(page);
+    }
+  }
+
+  // Leave the page at the top, as screenshots and element positions expect
+  await page.evaluate(() => window.scrollTo(0, 0));
+  summary.finalHeight = (await measureDocument(page)).height;
+  console.log(`Expanded page with ${summary.scrollSteps} scroll(s), ${summary.loadMoreClicks} "load more" click(s) and ${summary.expandedSections} opened section(s), stopped: ${summary.stopReason}`);
+  return summary;
+}
+
+/**
+ * Measures the document, counting elements as well as height, since some lists grow inside a fixed-height container
+ * @param page Puppeteer page instance
+ * @returns The scroll height and the number of elements
+ */
+async function measureDocument(page: Page): Promise<{ height: number; elements: number }> {
+  return page.evaluate(() => ({
+    height: document.documentElement.scrollHeight,
+    elements: document.getElementsByTagName('*').length,
+  }));
+}
+
+/**
+ * Waits until the DOM settles, then checks whether the document grew since the last measurement
+ * @param page Puppeteer page instance
+ * @param before The last measurement
+ * @param deadline When the expansion must stop, as a timestamp
+ * @param signal The abort signal of the operation
+ * @returns Whether the document is taller or has more elements than before
+ */
+async function waitForGrowth(
+  page: Page,
+  before: { height: number; elements: number },
+  deadline: number,
+  signal?: AbortSignal
+): Promise<boolean> {
+  await waitForDomStable(page, { quietMs: 500, timeoutMs: Math.max(1, Math.min(3000, deadline - Date.now())), signal });
+  try {
+    const after = await measureDocument(page);
+    return after.height > before.height || after.elements > before.elements;
+  } catch {
+    // The click navigated away; the caller notices the new URL
+    return false;
+  }
+}
+
+/**
+ * Clicks the first visible "load more" button, ignoring links that lead to another page
+ * @param page Puppeteer page instance
+ * @returns A description of the clicked button, if any
+ */
+async function clickLoadMoreButton(page: Page): Promise<string | undefined> {
+  const match = await page.$$eval(
+    LOAD_MORE_SELECTOR,
+    (elements, labels) => {
+      for (let index = 0; index < elements.length; index++) {
+        const el = elements[index] as HTMLElement;
+        const text = ((el as HTMLInputElement).value || el.textContent || '').replace(/\s+/g, ' ').trim().toLowerCase();
+        if (!text || text.length > 60 || !labels.some(label => text.startsWith(label))) continue;
+        if ((el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') continue;
+        // Pagination links replace the page instead of extending it
+        const href = el instanceof HTMLAnchorElement ? el.getAttribute('href') : null;
+        if (href && !href.startsWith('#') && !href.toLowerCase().startsWith('javascript:')) continue;
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0 || window.getComputedStyle(el).visibility === 'hidden') continue;
+        return { index, text };
+      }
+      return null;
+    },
+    LOAD_MORE_TEXTS
+  );
+
+  if (!match) {
+    return undefined;
+  }
+  const elements = await page.$$(LOAD_MORE_SELECTOR);
+  try {
+    await elements[match.index]?.click();
+  } catch (error) {
+    console.error(`Failed to click "load more" button "${match.text}":`, error);
+    return undefined;
+  }
+  return `"load more" button "${match.text}"`;
+}
+
+/**
+ * Opens closed <details> elements and collapsed accordions, i.e. buttons with aria-expanded="false" that control a
+ * hidden region. Navigation menus are left alone.
+ * @param page Puppeteer page instance
+ * @returns The number of sections opened
+ */
+async function expandSections(page: Page): Promise<number> {
+  try {
+    return await page.evaluate((limit) => {
+      let opened = 0;
+      for (const element of Array.from(document.querySelectorAll('details:not([open])')).slice(0, limit)) {
+        (element as HTMLDetailsElement).open = true;
+        opened += 1;
+      }
+
+      const toggles = Array.from(document.querySelectorAll('[aria-expanded="false"][aria-controls]')) as HTMLElement[];
+      for (const toggle of toggles) {
+        if (opened >= limit) break;
+        if (toggle.closest('nav, header, [role="navigation"], [role="menu"], [role="menubar"], [role="tablist"]')) continue;
+        const rect = toggle.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) continue;
+        const region = document.getElementById(toggle.getAttribute('aria-controls')!.split(' ')[0]!);
+        if (!region || (region.offsetParent !== null && !region.hidden)) continue;
+        toggle.click();
+        opened += 1;
+      }
+      return opened;
+    }, MAX_SECTIONS_PER_PASS);
+  } catch (error) {
+    console.error('Error expanding collapsed sections:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,34 @@
+import { HTTPRequest, Page } from 'puppeteer';
+
+import { NetworkUsage } from '../types/index.js';
+
+/**
+ * Starts counting the requests of a page, those that were blocked, and the bytes it received over the network
+ * @param page Puppeteer page instance, before it navigates
+ * @returns Reads the usage so far
+ */
+export async function trackNetworkUsage(page: Page): Promise<() => NetworkUsage> {
+  const usage: NetworkUsage = { requests: 0, blockedRequests: 0, transferredBytes: 0 };
+
+  page.on('request', () => {
+    usage.requests += 1;
+  });
+  page.on('requestfailed', (request: HTTPRequest) => {
+    if (request.failure()?.errorText === 'net::ERR_BLOCKED_BY_CLIENT') {
+      usage.blockedRequests += 1;
+    }
+  });
+
+  // Puppeteer does not expose response sizes, so listen to the DevTools protocol directly
+  try {
+    const session = await page.createCDPSession();
+    session.on('Network.loadingFinished', (event) => {
+      usage.transferredBytes += event.encodedDataLength;
+    });
+    await session.send('Network.enable');
+  } catch (error) {
+    console.error('Could not track transferred bytes:', error);
+  }
+
+  return () => ({ ...usage });
+}
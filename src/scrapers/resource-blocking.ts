@@ -0,0 +1,54 @@
+import { HTTPRequest } from 'puppeteer';
+
+import { matchesHostPattern } from '../utils/url-helpers.js';
+import { config } from '../config.js';
+import { RequestFilter, ResourceBlockingOptions } from '../types/index.js';
+
+// Well-known advertising, analytics and session-recording domains, blocked with BLOCK_TRACKERS or trackers: true
+const TRACKER_DOMAINS = [
+  'doubleclick.net', 'googlesyndication.com', 'googleadservices.com', 'google-analytics.com', 'googletagmanager.com',
+  'googletagservices.com', 'adservice.google.com', 'analytics.google.com', 'connect.facebook.net',
+  'amazon-adsystem.com', 'adnxs.com', 'criteo.com', 'criteo.net', 'taboola.com', 'outbrain.com', 'pubmatic.com',
+  'rubiconproject.com', 'openx.net', 'casalemedia.com', 'moatads.com', 'scorecardresearch.com', 'quantserve.com',
+  'hotjar.com', 'clarity.ms', 'fullstory.com', 'mouseflow.com', 'segment.com', 'segment.io', 'mixpanel.com',
+  'amplitude.com', 'heap.io', 'nr-data.net', 'bat.bing.com', 'ads-twitter.com', 'analytics.tiktok.com',
+  'ads.linkedin.com', 'snap.licdn.com', 'hs-analytics.net', 'adsrvr.org', 'bluekai.com',
+  'demdex.net', 'omtrdc.net', 'chartbeat.com', 'parsely.com', 'mc.yandex.ru',
+];
+
+/**
+ * Builds the filter that blocks requests by resource type and domain, from the request's options over the BLOCK_* defaults.
+ * The main document is never blocked.
+ * @param options The blocking options of the request
+ * @returns The filter, or undefined when nothing is blocked
+ */
+export function createResourceFilter(options: ResourceBlockingOptions = {}): RequestFilter | undefined {
+  const resourceTypes = new Set(options.resourceTypes ?? config.blockResourceTypes);
+  const domains = [
+    ...config.blockDomains,
+    ...(options.domains || []),
+    ...(options.trackers ?? config.blockTrackers ? TRACKER_DOMAINS.flatMap(domain => [domain, `*.${domain}`]) : []),
+  ];
+  if (resourceTypes.size === 0 && domains.length === 0) {
+    return undefined;
+  }
+
+  return (request: HTTPRequest) => {
+    if (request.isNavigationRequest() && request.frame()?.parentFrame() === null) {
+      return undefined;
+    }
+
+    const type = request.resourceType();
+    if (resourceTypes.has(type)) {
+      return `resource type ${type}`;
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(request.url()).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+    return domains.some(pattern => matchesHostPattern(hostname, pattern)) ? `domain ${hostname}` : undefined;
+  };
+}
@@ -0,0 +1,285 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { HTTPResponse, Page } from 'puppeteer';
+
+import { guardedFetch } from './guarded-fetch.js';
+import { config } from '../config.js';
+import { ProxySettings } from '../types/index.js';
+
+// One allow/disallow rule of a robots.txt group
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+// The rules of robots.txt that apply to our user agent
+interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// Robots.txt rules per origin, with their expiry time
+const robotsCache = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+// Earliest time of the next request per origin, to honor crawl-delay
+const nextRequestAt = new Map<string, number>();
+
+// Retry unreachable robots.txt files sooner than successfully fetched ones
+const ERROR_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Applies the robots.txt policy before navigating: checks the URL is allowed and waits out any crawl-delay
+ * @param url The URL about to be visited
+ * @param proxy The proxy of the page, which robots.txt is fetched through as well
+ * @param options Whether a request to the site follows, which has to wait out the crawl-delay, and the abort signal
+ * of the operation
+ * @returns Warnings to report when the policy is "warn"
+ * @throws If the policy is "enforce" and robots.txt disallows the URL, or if the signal aborts
+ */
+export async function applyRobotsPolicy(
+  url: string,
+  proxy?: ProxySettings,
+  { waitForCrawlDelay = true, signal }: { waitForCrawlDelay?: boolean; signal?: AbortSignal } = {}
+): Promise<string[]> {
+  if (config.robotsPolicy === 'off') {
+    return [];
+  }
+
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return [];
+  }
+
+  const warnings: string[] = [];
+  const robots = await getRobotsRules(parsed.origin, proxy);
+
+  if (!isPathAllowed(robots.rules, parsed.pathname + parsed.search)) {
+    const message = `robots.txt disallows ${url} for user agent "${config.robotsUserAgent}"`;
+    if (config.robotsPolicy === 'enforce') {
+      throw new Error(`Blocked by robots policy: ${message}`);
+    }
+    console.warn(`Robots policy warning: ${message}`);
+    warnings.push(message);
+  }
+
+  if (robots.crawlDelay && waitForCrawlDelay) {
+    signal?.throwIfAborted();
+    // Reserve the slot synchronously so that concurrent requests to the same origin queue up; a site cannot make us
+    // wait longer than ROBOTS_MAX_CRAWL_DELAY between requests
+    const delay = Math.min(robots.crawlDelay * 1000, config.robotsMaxCrawlDelay);
+    const now = Date.now();
+    const previous = nextRequestAt.get(parsed.origin);
+    const startAt = Math.max(now, previous ?? now);
+    nextRequestAt.set(parsed.origin, startAt + delay);
+    if (startAt > now) {
+      console.log(`Honoring crawl-delay of ${delay}ms for ${parsed.origin}, waiting ${startAt - now}ms`);
+      try {
+        await sleep(startAt - now, undefined, { signal });
+      } catch (error) {
+        // An aborted request never reaches the site, so it gives its slot back unless a later request queued behind it
+        if (nextRequestAt.get(parsed.origin) === startAt + delay) {
+          nextRequestAt.set(parsed.origin, previous!);
+        }
+        throw error;
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Checks the X-Robots-Tag header and robots meta tags of a loaded page for noindex/noarchive directives
+ * @param page Puppeteer page instance
+ * @param response The main document response, if any
+ * @returns Warnings to report when the policy is "warn"
+ * @throws If the policy is "enforce" and the page opts out of indexing or archiving
+ */
+export async function checkIndexingDirectives(page: Page, response: HTTPResponse | null): Promise<string[]> {
+  if (config.robotsPolicy === 'off') {
+    return [];
+  }
+
+  const directives = new Set<string>();
+  const headerValue = response?.headers()['x-robots-tag'];
+  if (headerValue) {
+    parseDirectives(headerValue.split('\n')).forEach(d => directives.add(d));
+  }
+
+  const metaValues = await page.$$eval(
+    'meta[name]',
+    (metas, agent) => metas
+      .filter(meta => {
+        const name = (meta.getAttribute('name') || '').toLowerCase();
+        return name === 'robots' || name === agent;
+      })
+      .map(meta => meta.getAttribute('content') || ''),
+    config.robotsUserAgent.toLowerCase()
+  );
+  parseDirectives(metaValues).forEach(d => directives.add(d));
+
+  const blocking = ['noindex', 'noarchive', 'none'].filter(d => directives.has(d));
+  if (blocking.length === 0) {
+    return [];
+  }
+
+  const message = `${page.url()} opts out of indexing or archiving (${blocking.join(', ')})`;
+  if (config.robotsPolicy === 'enforce') {
+    throw new Error(`Blocked by robots policy: ${message}`);
+  }
+  console.warn(`Robots policy warning: ${message}`);
+  return [message];
+}
+
+/**
+ * Extracts the directives that apply to our user agent from X-Robots-Tag or meta robots values
+ * @param values Raw values such as "noindex, nofollow" or "otherbot: noarchive"
+ * @returns The lowercase directives
+ */
+function parseDirectives(values: string[]): string[] {
+  const agent = config.robotsUserAgent.toLowerCase();
+  const directives: string[] = [];
+
+  for (const value of values) {
+    let text = value.toLowerCase().trim();
+    // "<agent>: directives" only applies to the named agent
+    const scoped = text.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/);
+    if (scoped && !['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview'].includes(scoped[1]!)) {
+      if (scoped[1] !== agent) continue;
+      text = scoped[2]!;
+    }
+    directives.push(...text.split(',').map(d => d.trim()).filter(Boolean));
+  }
+
+  return directives;
+}
+
+/**
+ * Fetches, parses and caches the robots.txt rules of an origin, under the navigation policy and through the page's proxy
+ * @param origin The origin, e.g. "https://example.com"
+ * @param proxy The proxy to fetch through, if any
+ * @returns The rules that apply to our user agent
+ */
+async function getRobotsRules(origin: string, proxy?: ProxySettings): Promise<RobotsRules> {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rules;
+  }
+
+  let rules: RobotsRules;
+  let ttl = config.robotsCacheTtl;
+  try {
+    const response = await guardedFetch(`${origin}/robots.txt`, {
+      headers: { 'user-agent': config.robotsUserAgent },
+      proxy,
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      rules = parseRobotsTxt(response.body, config.robotsUserAgent);
+    } else if (response.status >= 400 && response.status < 500) {
+      // No robots.txt (or not accessible): everything is allowed
+      rules = { rules: [] };
+    } else {
+      // Server errors mean the site is temporarily unavailable for crawling (RFC 9309)
+      rules = { rules: [{ allow: false, pattern: '/' }] };
+      ttl = Math.min(ttl, ERROR_CACHE_TTL);
+    }
+  } catch (error) {
+    console.error(`Could not fetch ${origin}/robots.txt:`, error);
+    rules = { rules: [{ allow: false, pattern: '/' }] };
+    ttl = Math.min(ttl, ERROR_CACHE_TTL);
+  }
+
+  robotsCache.set(origin, { rules, expiresAt: Date.now() + ttl });
+  return rules;
+}
+
+/**
+ * Parses robots.txt and keeps the groups naming our user agent exactly (case-insensitively), falling back to "*"
+ * @param content The robots.txt content
+ * @param userAgent Our user agent product token
+ * @returns The applicable rules and crawl-delay
+ */
+function parseRobotsTxt(content: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the group that follows them
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty disallow allows everything, which is the same as having no rule
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      }
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  // A group for "Puppeteer" or "MCP" is meant for another crawler, so the product token has to match in full
+  const specific = groups.filter(g => g.agents.some(a => a === agent));
+  const selected = specific.length > 0 ? specific : groups.filter(g => g.agents.includes('*'));
+
+  return {
+    rules: selected.flatMap(g => g.rules),
+    crawlDelay: selected.find(g => g.crawlDelay !== undefined)?.crawlDelay,
+  };
+}
+
+/**
+ * Evaluates robots rules for a path: the longest matching pattern wins, and allow wins ties
+ * @param rules The applicable rules
+ * @param path The URL path and query
+ * @returns Whether the path may be crawled
+ */
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Converts a robots.txt path pattern ("*" wildcard, "$" end anchor) to a regular expression
+ * @param pattern The path pattern
+ * @returns The regular expression, anchored at the start of the path
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,143 @@
+import { setTimeout as sleep } from 'timers/promises';
+
+import { visitWebPage } from './webpage-scraper.js';
+import { matchesGlob, normalizeUrl } from '../utils/url-helpers.js';
+import { CrawledPage, CrawlOptions, CrawlResult } from '../types/index.js';
+
+// Links to files that are never worth rendering as pages
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|iso|png|jpe?g|gif|webp|svg|ico|bmp|mp3|mp4|webm|avi|mov|wav|css|js|json|xml|rss|woff2?|ttf|eot)$/i;
+
+/**
+ * Crawls a site breadth-first from a seed URL, scraping every in-scope page with visitWebPage. Only pages scraped
+ * successfully that are not duplicates of another page count toward maxPages.
+ * @param options The seed URL, scope rules and limits of the crawl
+ * @returns The visited pages and a markdown index of the site
+ */
+export async function crawlSite({
+  url,
+  format = 'markdown',
+  maxDepth = 2,
+  maxPages = 10,
+  concurrency = 2,
+  delayMs = 1000,
+  sameOrigin = true,
+  pathPrefix,
+  include = [],
+  exclude = [],
+  ...loadOptions
+}: CrawlOptions): Promise<CrawlResult> {
+  const seed = normalizeUrl(url);
+  if (!seed) {
+    throw new Error(`Invalid seed URL: ${url}`);
+  }
+  const seedOrigin = new URL(seed).origin;
+
+  const isInScope = (candidate: string): boolean => {
+    const parsed = new URL(candidate);
+    if (sameOrigin && parsed.origin !== seedOrigin) return false;
+    if (pathPrefix && !parsed.pathname.startsWith(pathPrefix)) return false;
+    if (NON_HTML_EXTENSIONS.test(parsed.pathname)) return false;
+    if (include.length > 0 && !include.some(pattern => matchesGlob(candidate, pattern))) return false;
+    if (exclude.some(pattern => matchesGlob(candidate, pattern))) return false;
+    return true;
+  };
+
+  const queue: { url: string; depth: number }[] = [{ url: seed, depth: 0 }];
+  const seen = new Set<string>([seed]);
+  const canonicalOwners = new Map<string, string>();
+  const nextRequestAt = new Map<string, number>();
+  const pages: CrawledPage[] = [];
+  const inFlight = new Set<Promise<void>>();
+  let scraped = 0;
+
+  const crawlPage = async ({ url: pageUrl, depth }: { url: string; depth: number }): Promise<void> => {
+    // Per-host politeness delay, reserved synchronously so concurrent workers queue up behind each other
+    const host = new URL(pageUrl).host;
+    const now = Date.now();
+    const startAt = Math.max(now, nextRequestAt.get(host) ?? now);
+    nextRequestAt.set(host, startAt + delayMs);
+    if (startAt > now) {
+      await sleep(startAt - now, undefined, { signal: loadOptions.signal });
+    }
+
+    console.log(`Crawling (depth ${depth}): ${pageUrl}`);
+    loadOptions.onProgress?.(`Crawling (depth ${depth}, ${scraped}/${maxPages} pages done): ${pageUrl}`);
+    const result = await visitWebPage({ ...loadOptions, url: pageUrl, format, collectLinks: true });
+
+    if (result.error) {
+      pages.push({ url: pageUrl, canonicalUrl: pageUrl, depth, error: result.error.message });
+      return;
+    }
+
+    const canonicalUrl = (result.canonicalUrl && normalizeUrl(result.canonicalUrl)) || pageUrl;
+    const owner = canonicalOwners.get(canonicalUrl);
+    if (owner) {
+      pages.push({ url: pageUrl, canonicalUrl, depth, title: result.metadata?.title, duplicateOf: owner });
+      return;
+    }
+    canonicalOwners.set(canonicalUrl, pageUrl);
+    seen.add(canonicalUrl);
+    scraped += 1;
+    pages.push({ url: pageUrl, canonicalUrl, depth, title: result.metadata?.title, content: result.data, warnings: result.warnings, interactions: result.interactions, expansion: result.expansion, login: result.login, timings: result.timings, network: result.network });
+
+    if (depth >= maxDepth) {
+      return;
+    }
+    for (const link of result.links || []) {
+      const normalized = normalizeUrl(link);
+      if (normalized && !seen.has(normalized) && isInScope(normalized)) {
+        seen.add(normalized);
+        queue.push({ url: normalized, depth: depth + 1 });
+      }
+    }
+  };
+
+  while (true) {
+    // Pages in flight may all succeed, so they are reserved against the limit until they finish
+    while (queue.length > 0 && inFlight.size < concurrency && scraped + inFlight.size < maxPages && !loadOptions.signal?.aborted) {
+      const item = queue.shift()!;
+      const task: Promise<void> = crawlPage(item)
+        .catch((error) => {
+          pages.push({ url: item.url, canonicalUrl: item.url, depth: item.depth, error: String(error?.message || error) });
+        })
+        .finally(() => {
+          inFlight.delete(task);
+        });
+      inFlight.add(task);
+    }
+
+    if (inFlight.size === 0) {
+      break;
+    }
+    await Promise.race(inFlight);
+  }
+  loadOptions.signal?.throwIfAborted();
+
+  console.log(`Crawl finished: ${scraped} page(s) scraped, ${pages.length - scraped} failed or duplicate, ${queue.length} left in queue`);
+  return { pages, index: buildSiteIndex(seed, pages) };
+}
+
+/**
+ * Builds a markdown index of the crawled pages, grouped by depth
+ * @param seed The seed URL
+ * @param pages The crawled pages
+ * @returns The markdown index
+ */
+function buildSiteIndex(seed: string, pages: CrawledPage[]): string {
+  const lines = [`# Site index for ${seed}`, ''];
+  const sorted = [...pages].sort((a, b) => a.depth - b.depth || a.url.localeCompare(b.url));
+
+  for (const page of sorted) {
+    const indent = '  '.repeat(page.depth);
+    const label = page.title || page.url;
+    if (page.error) {
+      lines.push(`${indent}- ${page.url} (error: ${page.error})`);
+    } else if (page.duplicateOf) {
+      lines.push(`${indent}- ${page.url} (duplicate of ${page.duplicateOf})`);
+    } else {
+      lines.push(`${indent}- [${label}](${page.url})`);
+    }
+  }
+
+  return lines.join('\n');
+}
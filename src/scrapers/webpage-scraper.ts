@@ -1,92 +1,405 @@
-import puppeteerExtraImport from 'puppeteer-extra';
-import StealthPluginImport from 'puppeteer-extra-plugin-stealth';
-import fs from 'fs';
+import { Page } from 'puppeteer';
 
-import { handlePageInteractions } from '../ai/page-interactions.js';
+import { handlePageInteractions, trackDialogs } from '../ai/page-interactions.js';
+import { fillSchemaWithAI } from '../ai/structured-extractor.js';
 import { processHtmlContent } from './content-processor.js';
-import { ScrapeResult, WebpageScrapeOptions } from '../types/index.js';
+import { applyRobotsPolicy, checkIndexingDirectives } from './robots-policy.js';
+import { assertNoGuardViolation, assertUrlAllowed, installNavigationGuard } from './navigation-policy.js';
+import { applyBrowserContext } from './browser-context.js';
+import { acquirePage, getPageProxy, releasePage } from './browser-pool.js';
+import { selectProxy, trackProxyHealth } from './proxy-pool.js';
+import { createResourceFilter } from './resource-blocking.js';
+import { trackNetworkUsage } from './page-metrics.js';
+import { expandPage } from './page-expansion.js';
+import { getLoginProfile, isLoginPage, prepareLogin } from './login-flows.js';
+import { waitForConditions, waitForDomStable } from '../utils/page-waits.js';
 import { config } from '../config.js';
-
-// Work around TypeScript issues with puppeteer-extra
-const puppeteerExtra = puppeteerExtraImport as any;
-const StealthPlugin = StealthPluginImport as any;
-
-// Apply stealth plugin
-puppeteerExtra.use(StealthPlugin());
+import {
+  CaptureResult,
+  ExpansionSummary,
+  InteractionLogEntry,
+  LoginSummary,
+  OutputFormat,
+  PageLoadInfo,
+  PageLoadOptions,
+  PageTimings,
+  ProcessedContent,
+  ProgressReporter,
+  ScrapeResult,
+  StructuredExtractionOptions,
+  StructuredExtractionResult,
+  WebpageCaptureOptions,
+  WebpageScrapeOptions,
+} from '../types/index.js';
 
 /**
  * Visits a webpage, handles interactions, and extracts content
  * @param options Configuration options for the scraping operation
- * @returns Markdown content or error message
+ * @returns Content in the requested format with its metadata, or error message
  */
 export async function visitWebPage({
-  url,
-  autoInteract = true,
-  maxInteractionAttempts = 3,
-  waitForNetworkIdle = true,
+  format = 'markdown',
+  collectLinks = false,
+  ...options
 }: WebpageScrapeOptions): Promise<ScrapeResult> {
-  // Launch puppeteer with stealth plugin and respect headless configuration
-  const browser = await puppeteerExtra.launch({
-    headless: config.headless ? "new" : false, // Use config.headless setting
-    args: ['--no-sandbox', '--disable-setuid-sandbox'],
-  });
+  options = withRequestTimeout(options);
+  const { url, signal, onProgress } = options;
+  const started = Date.now();
+  let page: Page | undefined;
   
   try {
-    console.log(`Visiting webpage: ${url}`);
-    const page = await browser.newPage();
-    
-    // Set viewport to a standard desktop size
-    await page.setViewport({ width: 1280, height: 800 });
-    
-    // Navigate to the URL
-    await page.goto(url, { 
-      waitUntil: waitForNetworkIdle ? 'networkidle2' : 'domcontentloaded' 
-    });
-    
-    // Allow initial page load to complete
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Handle page interactions if enabled
-    if (autoInteract) {
-      console.log("Checking for interactive elements that need handling...");
-      await handlePageInteractions(page, maxInteractionAttempts);
-    }
+    // Borrow a page from the shared browser pool
+    page = await acquireAbortablePage(options);
+    const { warnings, etag, lastModified, timings, network, interactions, expansion, login } = await loadPage(page, options);
     
     // Extract content after handling interactions
-    const htmlContent: string = await page.evaluate(() => {
-      // Try to select the main content area, fallback to the body if no specific selector
-      const main = document.querySelector('main') || 
-                  document.querySelector('article') || 
-                  document.querySelector('.content') ||
-                  document.querySelector('#content') ||
-                  document.body;
-      return main.innerHTML;
-    });
-
-    // Process the HTML content
-    const markdown = await processHtmlContent(htmlContent);
+    const extractionStarted = Date.now();
+    const { content, metadata } = await extractPageContent(page, format, onProgress);
+    timings.extractionMs = Date.now() - extractionStarted;
+    timings.totalMs = Date.now() - started;
     
-    await browser.close();
-    console.log(`Successfully scraped and converted to markdown: ${url}`);
+    console.log(`Successfully scraped and converted to ${format} in ${timings.totalMs}ms: ${url}`);
     
-    return { data: markdown };
+    if (!collectLinks) {
+      return { data: content, metadata, warnings, etag, lastModified, interactions, expansion, login, timings, network: network() };
+    }
+
+    // Gather every link on the page (not only those in the main content) for crawling
+    const { links, canonicalUrl } = await page.evaluate(() => ({
+      links: Array.from(document.querySelectorAll('a[href]'), a => (a as HTMLAnchorElement).href),
+      canonicalUrl: (document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null)?.href || undefined,
+    }));
+    return { data: content, metadata, links, canonicalUrl, warnings, etag, lastModified, interactions, expansion, login, timings, network: network() };
   }
   catch(error) {
-    await browser.close();
-    if (error instanceof Error) {
-      console.error(`Error scraping ${url}:`, error.message);
-      return {
-        error: {
-          message: error.message,
-        },
-      };
+    return createErrorResult(url, error, signal);
+  }
+  finally {
+    if (page) {
+      await releasePage(page);
+    }
+  }
+}
+
+/**
+ * Visits a webpage, handles interactions, and captures a screenshot and optionally a PDF
+ * @param options Configuration options for the capture operation
+ * @returns Base64-encoded PNG screenshot and PDF, or error message
+ */
+export async function captureWebPage({
+  mode = 'viewport',
+  selector,
+  includePdf = false,
+  ...options
+}: WebpageCaptureOptions): Promise<CaptureResult> {
+  options = withRequestTimeout(options);
+  const { url, signal, onProgress } = options;
+  const started = Date.now();
+  let page: Page | undefined;
+
+  try {
+    page = await acquireAbortablePage(options);
+    const { warnings, timings, network, interactions, expansion, login } = await loadPage(page, options);
+
+    onProgress?.(`Capturing ${mode} screenshot`);
+    const extractionStarted = Date.now();
+    let screenshot: string;
+    if (mode === 'element') {
+      if (!selector) {
+        throw new Error('A selector is required to capture an element');
+      }
+      const element = await page.$(selector);
+      if (!element) {
+        throw new Error(`No element matches selector: ${selector}`);
+      }
+      screenshot = await element.screenshot({ encoding: 'base64' }) as string;
     } else {
-      console.error(`Unknown error scraping ${url}`);
-      return {
-        error: {
-          message: "An unknown error occurred",
-        },
-      };
+      screenshot = await page.screenshot({ encoding: 'base64', fullPage: mode === 'fullPage' }) as string;
     }
+
+    let pdf: string | undefined;
+    if (includePdf) {
+      onProgress?.('Rendering PDF');
+      const buffer = await page.pdf({ printBackground: true });
+      pdf = Buffer.from(buffer).toString('base64');
+    }
+
+    timings.extractionMs = Date.now() - extractionStarted;
+    timings.totalMs = Date.now() - started;
+    console.log(`Successfully captured ${mode} screenshot${pdf ? ' and PDF' : ''}: ${url}`);
+
+    return { screenshot, pdf, warnings, interactions, expansion, login, timings, network: network() };
+  }
+  catch(error) {
+    return createErrorResult(url, error, signal);
+  }
+  finally {
+    if (page) {
+      await releasePage(page);
+    }
+  }
+}
+
+/**
+ * Visits a webpage, handles interactions, and asks the vision model to fill a JSON Schema from its content
+ * @param options Configuration options for the extraction operation
+ * @returns The validated data with the page metadata, or error message
+ */
+export async function extractStructuredFromWebPage({
+  schema,
+  instructions,
+  maxRetries = 2,
+  screenshots = 1,
+  ...options
+}: StructuredExtractionOptions): Promise<StructuredExtractionResult> {
+  options = withRequestTimeout(options);
+  const { url, signal, onProgress } = options;
+  const started = Date.now();
+  let page: Page | undefined;
+
+  try {
+    page = await acquireAbortablePage(options);
+    const { warnings, timings, network, interactions, expansion, login } = await loadPage(page, options);
+
+    const extractionStarted = Date.now();
+    const { content: markdown, metadata } = await extractPageContent(page, 'markdown', onProgress);
+    onProgress?.('Capturing screenshots for the vision model');
+    const images = await captureViewportScreens(page, screenshots);
+
+    const { data, attempts } = await fillSchemaWithAI(markdown, images, schema, { instructions, maxRetries, signal, onProgress });
+    timings.extractionMs = Date.now() - extractionStarted;
+    timings.totalMs = Date.now() - started;
+    console.log(`Successfully extracted structured data in ${attempts} attempt(s): ${url}`);
+
+    return { data, attempts, metadata, warnings, interactions, expansion, login, timings, network: network() };
+  }
+  catch(error) {
+    return createErrorResult(url, error, signal);
+  }
+  finally {
+    if (page) {
+      await releasePage(page);
+    }
+  }
+}
+
+/**
+ * Borrows a page from the pool, connected through the selected proxy, that is released as soon as the signal aborts,
+ * so pending navigations and evaluations fail right away
+ * @param options The URL, requested proxy and abort signal of the operation
+ * @returns The borrowed page
+ */
+async function acquireAbortablePage({ url, proxy, signal }: PageLoadOptions): Promise<Page> {
+  signal?.throwIfAborted();
+  const page = await acquirePage(await selectProxy(url, proxy));
+  if (!signal) {
+    return page;
+  }
+  if (signal.aborted) {
+    await releasePage(page);
+    signal.throwIfAborted();
+  }
+
+  const onAbort = () => {
+    console.log(`Operation cancelled, releasing page ${page.url()}`);
+    releasePage(page).catch(() => {});
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  page.once('close', () => signal.removeEventListener('abort', onAbort));
+  return page;
+}
+
+/**
+ * Takes consecutive viewport screenshots from the top of the page down
+ * @param page Puppeteer page instance
+ * @param count Maximum number of screenshots
+ * @returns Base64-encoded PNG screenshots
+ */
+async function captureViewportScreens(page: Page, count: number): Promise<string[]> {
+  const screens: string[] = [];
+  const { scrollHeight, viewportHeight } = await page.evaluate(() => ({
+    scrollHeight: document.documentElement.scrollHeight,
+    viewportHeight: window.innerHeight,
+  }));
+
+  for (let index = 0; index < count && index * viewportHeight < scrollHeight; index++) {
+    await page.evaluate((top) => window.scrollTo(0, top), index * viewportHeight);
+    screens.push(await page.screenshot({ encoding: 'base64' }) as string);
+  }
+
+  await page.evaluate(() => window.scrollTo(0, 0));
+  return screens;
+}
+
+/**
+ * Navigates a page to the URL and handles interactive elements, as shared by scraping and capturing
+ * @param page Puppeteer page instance
+ * @param options Navigation and interaction options
+ * @returns Information gathered while loading, such as policy warnings
+ */
+async function loadPage(page: Page, {
+  url,
+  browserContext,
+  blocking,
+  fast = false,
+  dryRun = false,
+  waitFor,
+  expand,
+  navigationTimeoutMs = config.navigationTimeout,
+  autoInteract = true,
+  maxInteractionAttempts = 3,
+  waitForNetworkIdle = true,
+  signal,
+  onProgress,
+}: PageLoadOptions): Promise<PageLoadInfo> {
+  // Refuse forbidden schemes, hosts and private addresses before any request is made
+  await assertUrlAllowed(url);
+
+  // Check robots.txt before touching the site
+  const warnings = await applyRobotsPolicy(url, getPageProxy(page), { signal });
+
+  console.log(`Visiting webpage: ${url}`);
+  onProgress?.(`Navigating to ${url}`);
+  
+  // Emulate the requested device, locale and identity before the first request
+  await applyBrowserContext(page, browserContext, url);
+
+  // Apply the same policy to redirects, frames and subresources, and drop blocked resources
+  await installNavigationGuard(page, createResourceFilter(blocking));
+  trackDialogs(page);
+  const network = await trackNetworkUsage(page);
+  const timings: PageTimings = {};
+
+  // Log in to sites with a login profile, or restore the cookies of an earlier login, before the first request
+  const profile = getLoginProfile(url);
+  let login: LoginSummary | undefined;
+  let started = Date.now();
+  if (profile) {
+    login = await prepareLogin(page, profile, { signal, onProgress });
+    timings.loginMs = Date.now() - started;
   }
+  
+  // Navigate to the URL
+  const navigate = () => trackProxyHealth(page, () => page.goto(url, { 
+    waitUntil: waitForNetworkIdle ? 'networkidle2' : 'domcontentloaded',
+    timeout: navigationTimeoutMs,
+  }));
+  started = Date.now();
+  let response = await navigate();
+  timings.navigationMs = Date.now() - started;
+
+  // A site that sends the page back to its login form no longer accepts the stored cookies: log in again once
+  if (profile && login?.status === 'reused' && isLoginPage(page, profile, url)) {
+    console.log(`The stored login to ${profile.domain} was rejected, logging in again`);
+    started = Date.now();
+    login = await prepareLogin(page, profile, { reuse: false, signal, onProgress });
+    timings.loginMs = (timings.loginMs || 0) + Date.now() - started;
+    response = await navigate();
+  }
+  warnings.push(...await checkIndexingDirectives(page, response));
+  const headers = response?.headers() || {};
+  
+  // Wait for the requested conditions, or else until the DOM stops changing
+  started = Date.now();
+  if (waitFor) {
+    onProgress?.('Waiting for the requested conditions');
+    await waitForConditions(page, waitFor, { timeoutMs: navigationTimeoutMs, signal });
+  } else {
+    onProgress?.('Waiting for the page to settle');
+    await waitForDomStable(page, { signal });
+  }
+  timings.settleMs = Date.now() - started;
+  
+  // Handle page interactions if enabled
+  let interactions: InteractionLogEntry[] | undefined;
+  if (autoInteract) {
+    console.log("Checking for interactive elements that need handling...");
+    started = Date.now();
+    ({ log: interactions } = await handlePageInteractions(page, maxInteractionAttempts, undefined, { signal, onProgress, fast, dryRun }));
+    timings.interactionMs = Date.now() - started;
+  }
+
+  // Scroll feeds, click "load more" and open collapsed sections once overlays are out of the way
+  let expansion: ExpansionSummary | undefined;
+  if (expand) {
+    started = Date.now();
+    expansion = await expandPage(page, expand, { signal, onProgress });
+    timings.expansionMs = Date.now() - started;
+  }
+  assertNoGuardViolation(page);
+
+  return { warnings, etag: headers['etag'], lastModified: headers['last-modified'], timings, network, interactions, expansion, login };
+}
+
+/**
+ * Bounds an operation by its timeoutMs (or REQUEST_TIMEOUT), by adding a timeout to its abort signal
+ * @param options The operation options
+ * @returns The options with the combined signal
+ */
+function withRequestTimeout<T extends PageLoadOptions>(options: T): T {
+  const timeoutMs = options.timeoutMs ?? config.requestTimeout;
+  if (!timeoutMs) {
+    return options;
+  }
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return { ...options, signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout };
+}
+
+/**
+ * Converts a thrown value into an error result
+ * @param url The URL being processed
+ * @param error The thrown value
+ * @param signal The abort signal of the operation, to report cancellation instead of its side effects
+ * @returns The error result
+ */
+function createErrorResult(url: string, error: unknown, signal?: AbortSignal): { error: { message: string } } {
+  if (signal?.aborted) {
+    const timedOut = (signal.reason as Error | undefined)?.name === 'TimeoutError';
+    console.log(`${timedOut ? 'Timed out' : 'Cancelled'} scraping ${url}`);
+    return {
+      error: {
+        message: timedOut ? "The operation timed out" : "The operation was cancelled",
+      },
+    };
+  } else if (error instanceof Error) {
+    console.error(`Error scraping ${url}:`, error.message);
+    return {
+      error: {
+        message: error.message,
+      },
+    };
+  } else {
+    console.error(`Unknown error scraping ${url}`);
+    return {
+      error: {
+        message: "An unknown error occurred",
+      },
+    };
+  }
+}
+
+/**
+ * Extracts the main content area of the current page and converts it to the requested format
+ * @param page Puppeteer page instance
+ * @param format The output format, markdown by default
+ * @param onProgress Receives a message as extraction and conversion start
+ * @returns The formatted content and the article metadata
+ */
+export async function extractPageContent(page: Page, format: OutputFormat = 'markdown', onProgress?: ProgressReporter): Promise<ProcessedContent> {
+  onProgress?.('Extracting the main content');
+  const htmlContent: string = await page.evaluate(() => {
+    // Try to select the main content area, fallback to the body if no specific selector
+    const main = document.querySelector('main') || 
+                document.querySelector('article') || 
+                document.querySelector('.content') ||
+                document.querySelector('#content') ||
+                document.body;
+    // Keep the head and document language so Readability can still read the page metadata
+    const lang = document.documentElement.getAttribute('lang') || '';
+    return `<html lang="${lang.replace(/"/g, '')}"><head>${document.head.innerHTML}</head><body>${main.innerHTML}</body></html>`;
+  });
+
+  // Process the HTML content
+  onProgress?.(`Converting to ${format}`);
+  return processHtmlContent(htmlContent, format, page.url());
 }
\ No newline at end of file
@@ -0,0 +1,343 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express, { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config } from '../config.js';
+
+// Tool calls counted per identity in its current quota window
+const quotaUsage = new Map<string, { count: number; resetAt: number }>();
+// Introspection results per token hash, so the authorization server is not asked on every request
+const introspectionCache = new Map<string, { auth: AuthInfo | undefined; expiresAt: number }>();
+
+// Re-check tokens with the authorization server at least this often, so revocations take effect
+const INTROSPECTION_CACHE_TTL = 60 * 1000;
+// Same limit as the SDK transports apply to a single message
+const MAX_BODY_SIZE = '4mb';
+
+// The transports read the validated credentials of a request from req.auth
+declare module 'express-serve-static-core' {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+// Token introspection response (RFC 7662), limited to the fields we use
+interface IntrospectionResponse {
+  active?: boolean;
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  exp?: number;
+  aud?: string | string[];
+  iss?: string;
+}
+
+/**
+ * Builds the middleware chain that guards the MCP endpoints: Origin validation, authentication,
+ * JSON body parsing and per-identity quotas. Handlers must pass req.body on to the transport.
+ * @returns The middleware chain
+ */
+export function createAccessControl(): RequestHandler[] {
+  return [validateOrigin, authenticate, express.json({ limit: MAX_BODY_SIZE }), enforceQuota];
+}
+
+/**
+ * Publishes the OAuth protected resource metadata (RFC 9728) when OAuth is enabled, so clients can discover the authorization server
+ * @param app The Express application
+ */
+export function registerProtectedResourceMetadata(app: Express): void {
+  if (!config.oauthIssuer) {
+    return;
+  }
+
+  app.get(new URL(getProtectedResourceMetadataUrl()).pathname, (_req: Request, res: Response) => {
+    res.json({
+      resource: config.oauthResource,
+      authorization_servers: [config.oauthIssuer],
+      scopes_supported: config.oauthRequiredScopes.length > 0 ? config.oauthRequiredScopes : undefined,
+      bearer_methods_supported: ['header'],
+    });
+  });
+}
+
+/**
+ * Returns the identity that owns a request, to bind transport sessions to the client that opened them
+ * @param req The Express request
+ * @returns The API key name or OAuth client ID, or undefined when authentication is disabled
+ */
+export function getRequestIdentity(req: Request): string | undefined {
+  return req.auth?.clientId;
+}
+
+/**
+ * Rejects requests from browser origins other than localhost and ALLOWED_ORIGINS, which protects against DNS rebinding
+ * @param req The Express request
+ * @param res The Express response
+ * @param next Continues with the next handler
+ */
+function validateOrigin(req: Request, res: Response, next: NextFunction): void {
+  const origin = req.headers.origin;
+  // Non-browser clients do not send an Origin header
+  if (!origin || isAllowedOrigin(origin)) {
+    next();
+    return;
+  }
+
+  console.error(`Rejected request from origin ${origin}`);
+  sendJsonRpcError(res, 403, 'Forbidden: origin not allowed');
+}
+
+/**
+ * Accepts requests with a configured API key or a valid OAuth access token, when authentication is enabled
+ * @param req The Express request
+ * @param res The Express response
+ * @param next Continues with the next handler
+ */
+async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (config.apiKeys.length === 0 && !config.oauthIssuer) {
+    next();
+    return;
+  }
+
+  const token = getRequestToken(req);
+  if (!token) {
+    sendUnauthorized(res, 'Unauthorized: missing credentials');
+    return;
+  }
+
+  const apiKey = config.apiKeys.find(entry => safeEqual(entry.key, token));
+  if (apiKey) {
+    req.auth = { token, clientId: apiKey.name, scopes: [] };
+    next();
+    return;
+  }
+
+  if (config.oauthIssuer) {
+    let auth: AuthInfo | undefined;
+    try {
+      auth = await introspectToken(token);
+    } catch (error) {
+      console.error('Error introspecting access token:', error);
+      sendJsonRpcError(res, 503, 'Authorization server unavailable');
+      return;
+    }
+
+    if (auth) {
+      const missing = config.oauthRequiredScopes.filter(scope => !auth.scopes.includes(scope));
+      if (missing.length > 0) {
+        res.setHeader('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${config.oauthRequiredScopes.join(' ')}", resource_metadata="${getProtectedResourceMetadataUrl()}"`);
+        sendJsonRpcError(res, 403, `Forbidden: missing scope(s) ${missing.join(', ')}`);
+        return;
+      }
+      req.auth = auth;
+      next();
+      return;
+    }
+  }
+
+  sendUnauthorized(res, 'Unauthorized: invalid credentials');
+}
+
+/**
+ * Counts tool calls and scraping resource reads per authenticated identity and rejects them once QUOTA_LIMIT is reached within QUOTA_WINDOW
+ * @param req The Express request
+ * @param res The Express response
+ * @param next Continues with the next handler
+ */
+function enforceQuota(req: Request, res: Response, next: NextFunction): void {
+  const identity = getRequestIdentity(req);
+  if (config.quotaLimit === 0 || !identity) {
+    next();
+    return;
+  }
+
+  // A POST may carry a single message or a batch
+  const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+  const toolCalls = messages.filter(isMeteredMessage).length;
+  if (toolCalls === 0) {
+    next();
+    return;
+  }
+
+  const now = Date.now();
+  let usage = quotaUsage.get(identity);
+  if (!usage || usage.resetAt <= now) {
+    usage = { count: 0, resetAt: now + config.quotaWindow };
+    quotaUsage.set(identity, usage);
+  }
+
+  if (usage.count + toolCalls > config.quotaLimit) {
+    console.error(`Quota exceeded for ${identity}: ${usage.count}/${config.quotaLimit} tool call(s) used`);
+    res.setHeader('Retry-After', Math.ceil((usage.resetAt - now) / 1000).toString());
+    sendJsonRpcError(res, 429, `Quota exceeded: ${config.quotaLimit} tool call(s) per ${config.quotaWindow}ms`);
+    return;
+  }
+
+  usage.count += toolCalls;
+  next();
+}
+
+/**
+ * Tells whether a JSON-RPC message makes the server scrape: a tool call, or a read of a scrape://page resource, which
+ * scrapes the page when it is not cached
+ * @param message The JSON-RPC message
+ * @returns True if the message counts against the quota
+ */
+function isMeteredMessage(message: unknown): boolean {
+  const { method, params } = (message || {}) as { method?: unknown; params?: { uri?: unknown } };
+  if (method === 'tools/call') {
+    return true;
+  }
+  return method === 'resources/read' && typeof params?.uri === 'string' && params.uri.startsWith('scrape://page?');
+}
+
+/**
+ * Validates an OAuth access token with the introspection endpoint of the authorization server
+ * @param token The bearer token
+ * @returns The token information, or undefined if the token is not active or not issued for this server
+ * @throws If the introspection endpoint cannot be reached or answers with an error
+ */
+async function introspectToken(token: string): Promise<AuthInfo | undefined> {
+  const cacheKey = createHash('sha256').update(token).digest('hex');
+  const now = Date.now();
+  const cached = introspectionCache.get(cacheKey);
+  if (cached && cached.expiresAt > now) {
+    return cached.auth;
+  }
+
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    accept: 'application/json',
+  };
+  if (config.oauthClientId) {
+    const credentials = `${encodeURIComponent(config.oauthClientId)}:${encodeURIComponent(config.oauthClientSecret || '')}`;
+    headers.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const response = await fetch(config.oauthIntrospectionUrl!, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(`Token introspection failed with status ${response.status}`);
+  }
+
+  const body = await response.json() as IntrospectionResponse;
+  const audiences = Array.isArray(body.aud) ? body.aud : body.aud ? [body.aud] : [];
+  const valid = body.active === true
+    && (!body.exp || body.exp * 1000 > now)
+    && (!body.iss || trimSlash(body.iss) === trimSlash(config.oauthIssuer!))
+    // Tokens must be bound to this server (RFC 8707), so tokens issued for other services are refused
+    && audiences.some(audience => trimSlash(audience) === trimSlash(config.oauthResource!));
+
+  const auth: AuthInfo | undefined = valid
+    ? {
+        token,
+        clientId: body.client_id || body.sub || 'oauth-client',
+        scopes: (body.scope || '').split(' ').filter(Boolean),
+        expiresAt: body.exp,
+        extra: { subject: body.sub },
+      }
+    : undefined;
+
+  for (const [key, entry] of introspectionCache) {
+    if (entry.expiresAt <= now) {
+      introspectionCache.delete(key);
+    }
+  }
+  const expiresAt = Math.min(now + INTROSPECTION_CACHE_TTL, body.exp ? body.exp * 1000 : Infinity);
+  introspectionCache.set(cacheKey, { auth, expiresAt });
+
+  return auth;
+}
+
+/**
+ * Reads the credentials of a request from the Authorization bearer token or the X-API-Key header
+ * @param req The Express request
+ * @returns The token, or undefined if none was sent
+ */
+function getRequestToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || undefined;
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+}
+
+/**
+ * Checks whether a browser origin may use the server
+ * @param origin The Origin header value
+ * @returns Whether the origin is localhost or listed in ALLOWED_ORIGINS
+ */
+function isAllowedOrigin(origin: string): boolean {
+  if (config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin)) {
+    return true;
+  }
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compares a secret with a candidate in constant time
+ * @param secret The configured secret
+ * @param candidate The value sent by the client
+ * @returns Whether they are equal
+ */
+function safeEqual(secret: string, candidate: string): boolean {
+  const a = createHash('sha256').update(secret).digest();
+  const b = createHash('sha256').update(candidate).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Returns the URL of the protected resource metadata, which RFC 9728 places before the path of the resource
+ * @returns The metadata URL
+ */
+function getProtectedResourceMetadataUrl(): string {
+  const resource = new URL(config.oauthResource!);
+  const path = resource.pathname === '/' ? '' : resource.pathname.replace(/\/+$/, '');
+  return `${resource.origin}/.well-known/oauth-protected-resource${path}`;
+}
+
+/**
+ * Sends a 401 response that tells the client how to authenticate
+ * @param res The Express response
+ * @param message The error message
+ */
+function sendUnauthorized(res: Response, message: string): void {
+  res.setHeader('WWW-Authenticate', config.oauthIssuer
+    ? `Bearer resource_metadata="${getProtectedResourceMetadataUrl()}"`
+    : 'Bearer realm="mcp"');
+  sendJsonRpcError(res, 401, message);
+}
+
+/**
+ * Sends a JSON-RPC error response outside of any transport
+ * @param res The Express response
+ * @param status The HTTP status code
+ * @param message The error message
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message,
+    },
+    id: null,
+  });
+}
+
+/**
+ * Removes a trailing slash, so that issuer and audience URLs compare equal with or without one
+ * @param url The URL
+ * @returns The URL without trailing slash
+ */
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
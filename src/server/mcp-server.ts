@@ -1,5 +1,6 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerTools } from './tools.js';
+import { registerResources } from './resources.js';
 import { setupTransport } from './transports.js';
 
 // Server information
@@ -7,7 +8,8 @@ const serverName = "web-scraper-mcp-server";
 const serverVersion = "1.0.0";
 
 /**
- * Creates and initializes the MCP server
+ * Creates an MCP server instance with the tools and resources registered. An instance serves one transport session,
+ * so the SSE and HTTP transports create one per client session.
  * @returns The initialized MCP server instance
  */
 export function createMcpServer(): McpServer {
@@ -15,14 +17,22 @@ export function createMcpServer(): McpServer {
   const server = new McpServer({
     name: serverName,
     version: serverVersion,
-    capabilities: {},
+  }, {
+    capabilities: {
+      resources: { subscribe: true, listChanged: true },
+    },
   });
 
-  // Register available tools
+  // Register available tools and resources
   registerTools(server);
-
-  // Configure transport
-  setupTransport(server, serverName, serverVersion);
+  registerResources(server);
 
   return server;
-}
\ No newline at end of file
+}
+
+/**
+ * Starts the server on the configured transport
+ */
+export function startMcpServer(): void {
+  setupTransport(createMcpServer, serverName, serverVersion);
+}
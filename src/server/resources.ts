@@ -0,0 +1,242 @@
+import { createHash } from 'crypto';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListResourcesResult, ReadResourceResult, SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { cachedVisitWebPage, getCacheEntry, listCacheEntries, onCacheEntryWritten } from '../scrapers/content-cache.js';
+import { normalizeUrl } from '../utils/url-helpers.js';
+import { config } from '../config.js';
+import { BrowserContextOptions, OutputFormat } from '../types/index.js';
+
+// A screenshot published by capture-webpage
+interface StoredScreenshot {
+  key: string;
+  url: string;
+  data: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// The resources one client session lists and the URIs it subscribed to
+interface ResourceSession {
+  server: McpServer;
+  listed: Set<string>;
+  subscriptions: Set<string>;
+}
+
+// MIME type of the content of each output format
+const FORMAT_MIME_TYPES: Record<OutputFormat, string> = {
+  markdown: 'text/markdown',
+  text: 'text/plain',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+// Screenshots in insertion order, so the oldest are evicted first
+const screenshots = new Map<string, StoredScreenshot>();
+// Client sessions by their MCP server; each transport session has its own server
+const sessions = new Map<McpServer, ResourceSession>();
+
+/**
+ * Registers the scrape:// resources: cached pages and screenshots by hash, and any page by URL. Listings and
+ * subscriptions belong to the client session of the server.
+ * @param server The MCP server instance of one client session
+ */
+export function registerResources(server: McpServer): void {
+  const session: ResourceSession = { server, listed: new Set(), subscriptions: new Set() };
+  sessions.set(server, session);
+
+  // Registered first: the hash template below would also match these URIs
+  server.resource(
+    "page",
+    new ResourceTemplate("scrape://page{?url}", { list: undefined }),
+    { description: "A webpage as markdown, served from the content cache or scraped on demand" },
+    async (uri, { url }) => {
+      const pageUrl = decodeURIComponent(String(url));
+      if (!normalizeUrl(pageUrl)) {
+        throw new Error(`Invalid page URL: ${pageUrl}`);
+      }
+
+      const result = await cachedVisitWebPage({ url: pageUrl });
+      if (result.error) {
+        throw new Error(result.error.message);
+      }
+      if (result.cache && result.cache.status !== 'bypass') {
+        publishPage(server, result.cache.key);
+      }
+      return { contents: [{ uri: uri.href, mimeType: FORMAT_MIME_TYPES.markdown, text: result.data || '' }] };
+    }
+  );
+
+  server.resource(
+    "scraped",
+    // No template metadata: it would override the description of every listed resource
+    new ResourceTemplate("scrape://{key}", { list: () => listScrapeResources(session) }),
+    async (uri, { key }) => readScrapeResource(uri.href, String(key))
+  );
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = onCacheEntryWritten((entry, replaced) => {
+    if (replaced) {
+      notifyResourceUpdated(entry.key, entry.url);
+    }
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    sessions.delete(server);
+    onclose?.();
+  };
+}
+
+/**
+ * Makes a cached page a resource of the client session that scraped it, which lists it unless it was scraped with
+ * headers, cookies or a storage state of the caller
+ * @param server The MCP server instance of the session
+ * @param key The cache key of the page
+ * @param browserContext The browser context options of the scrape
+ * @returns The resource URI
+ */
+export function publishPage(server: McpServer, key: string, browserContext: BrowserContextOptions = {}): string {
+  listInSession(server, key, browserContext);
+  return `scrape://${key}`;
+}
+
+/**
+ * Publishes a screenshot as a scrape:// resource of the client session that took it, replacing an earlier capture of
+ * the same page, mode and browser context. It is listed unless it was taken with headers, cookies or a storage state
+ * of the caller.
+ * @param server The MCP server instance of the session
+ * @param url The URL of the captured page
+ * @param mode The capture mode and selector, which identify the screenshot together with the URL
+ * @param data The base64-encoded PNG screenshot
+ * @param browserContext The browser context options of the capture
+ * @returns The resource URI
+ */
+export function publishScreenshot(server: McpServer, url: string, mode: string, data: string, browserContext: BrowserContextOptions = {}): string {
+  evictExpiredScreenshots();
+
+  // The browser context is part of the hash, so that captures with other credentials neither replace nor reveal it
+  const key = createHash('sha256').update(JSON.stringify({ url: normalizeUrl(url) || url, mode, browserContext })).digest('hex');
+  const replaced = screenshots.delete(key);
+  const now = Date.now();
+  screenshots.set(key, { key, url, data, storedAt: now, expiresAt: now + config.resultTtl });
+  while (screenshots.size > config.resultMaxEntries) {
+    screenshots.delete(screenshots.keys().next().value as string);
+  }
+
+  if (replaced) {
+    notifyResourceUpdated(key, url);
+  }
+  listInSession(server, key, browserContext);
+  return `scrape://${key}`;
+}
+
+/**
+ * Adds a page or screenshot to the listing of a client session and tells the client, unless the caller supplied
+ * credentials for it
+ * @param server The MCP server instance of the session
+ * @param key The hash of the resource
+ * @param browserContext The browser context options it was scraped with
+ */
+function listInSession(server: McpServer, key: string, browserContext: BrowserContextOptions): void {
+  const session = sessions.get(server);
+  const credentials = !!browserContext.storageState || !!browserContext.cookies?.length || Object.keys(browserContext.headers || {}).length > 0;
+  if (!session || credentials || session.listed.has(key)) {
+    return;
+  }
+
+  session.listed.add(key);
+  if (server.isConnected()) {
+    server.sendResourceListChanged();
+  }
+}
+
+/**
+ * Lists the cached pages and screenshots of a client session that are still held
+ * @param session The client session
+ * @returns The resources, most recent first
+ */
+async function listScrapeResources(session: ResourceSession): Promise<ListResourcesResult> {
+  evictExpiredScreenshots();
+
+  const pages = (await listCacheEntries()).filter(entry => session.listed.has(entry.key)).map(entry => ({
+    uri: `scrape://${entry.key}`,
+    name: entry.result.metadata?.title || entry.url,
+    description: `${entry.url} (${entry.format}, scraped ${new Date(entry.storedAt).toISOString()})`,
+    mimeType: FORMAT_MIME_TYPES[entry.format],
+  }));
+  const images = [...screenshots.values()].reverse().filter(screenshot => session.listed.has(screenshot.key)).map(screenshot => ({
+    uri: `scrape://${screenshot.key}`,
+    name: `Screenshot of ${screenshot.url}`,
+    description: `Captured ${new Date(screenshot.storedAt).toISOString()}`,
+    mimeType: 'image/png',
+  }));
+
+  return { resources: [...pages, ...images] };
+}
+
+/**
+ * Reads a cached page or a screenshot by its hash
+ * @param uri The requested resource URI
+ * @param key The hash part of the URI
+ * @returns The resource contents
+ * @throws If nothing is stored under the hash
+ */
+async function readScrapeResource(uri: string, key: string): Promise<ReadResourceResult> {
+  evictExpiredScreenshots();
+
+  const screenshot = screenshots.get(key);
+  if (screenshot) {
+    return { contents: [{ uri, mimeType: 'image/png', blob: screenshot.data }] };
+  }
+
+  const entry = await getCacheEntry(key);
+  if (!entry) {
+    throw new Error(`Unknown or expired resource: ${uri}`);
+  }
+  return { contents: [{ uri, mimeType: FORMAT_MIME_TYPES[entry.format], text: entry.result.data || '' }] };
+}
+
+/**
+ * Notifies the client sessions that subscribed to the hash URI of a resource, or to its page URL, that it changed
+ * @param key The hash of the resource
+ * @param url The URL of the page it was taken from
+ */
+function notifyResourceUpdated(key: string, url: string): void {
+  const normalized = normalizeUrl(url) || url;
+
+  for (const { server, subscriptions } of sessions.values()) {
+    for (const uri of subscriptions) {
+      let matches = uri === `scrape://${key}`;
+      if (!matches && uri.startsWith('scrape://page?')) {
+        const subscribedUrl = new URL(uri).searchParams.get('url');
+        matches = !!subscribedUrl && (normalizeUrl(subscribedUrl) || subscribedUrl) === normalized;
+      }
+      if (matches) {
+        server.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Error sending resource update for ${uri}:`, error);
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Removes screenshots whose time to live has elapsed
+ */
+function evictExpiredScreenshots(): void {
+  const now = Date.now();
+  for (const [key, screenshot] of screenshots) {
+    if (screenshot.expiresAt <= now) {
+      screenshots.delete(key);
+    }
+  }
+}
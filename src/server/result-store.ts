@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+
+import { config } from '../config.js';
+import { MarkdownChunk } from '../types/index.js';
+
+// A chunked result kept around so that its remaining chunks can be fetched later
+interface StoredResult {
+  transportSessionId?: string;
+  chunks: MarkdownChunk[];
+  meta: Record<string, unknown>;
+  expiresAt: number;
+}
+
+// Stored results in insertion order, so the oldest are evicted first
+const results = new Map<string, StoredResult>();
+
+/**
+ * Stores the chunks of a long result and returns a handle to retrieve them
+ * @param chunks The chunks of the result
+ * @param meta Metadata to repeat with every chunk, such as the source URL
+ * @param transportSessionId The MCP transport session the result belongs to, if any; only it can fetch the chunks
+ * @returns The result handle
+ */
+export function storeChunkedResult(chunks: MarkdownChunk[], meta: Record<string, unknown>, transportSessionId?: string): string {
+  evictExpiredResults();
+
+  const handle = randomUUID();
+  results.set(handle, { transportSessionId, chunks, meta, expiresAt: Date.now() + config.resultTtl });
+  while (results.size > config.resultMaxEntries) {
+    results.delete(results.keys().next().value as string);
+  }
+  return handle;
+}
+
+/**
+ * Looks up one chunk of a stored result
+ * @param handle The result handle
+ * @param index The zero-based chunk index
+ * @param transportSessionId The MCP transport session making the request, if any
+ * @returns The chunk, the total number of chunks and the stored metadata
+ * @throws If the handle is unknown, expired or belongs to another transport session, or the index is out of range
+ */
+export function getStoredChunk(
+  handle: string,
+  index: number,
+  transportSessionId?: string
+): { chunk: MarkdownChunk; totalChunks: number; meta: Record<string, unknown> } {
+  evictExpiredResults();
+
+  // A handle of another client is reported like an unknown one, so that handles cannot be probed
+  const stored = results.get(handle);
+  if (!stored || stored.transportSessionId !== transportSessionId) {
+    throw new Error(`Unknown or expired result handle: ${handle}`);
+  }
+  const chunk = stored.chunks[index];
+  if (!chunk) {
+    throw new Error(`Chunk ${index} is out of range (result has ${stored.chunks.length} chunks)`);
+  }
+  return { chunk, totalChunks: stored.chunks.length, meta: stored.meta };
+}
+
+/**
+ * Removes results whose time to live has elapsed
+ */
+function evictExpiredResults(): void {
+  const now = Date.now();
+  for (const [handle, stored] of results) {
+    if (stored.expiresAt <= now) {
+      results.delete(handle);
+    }
+  }
+}
@@ -5,23 +5,26 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { randomUUID } from 'crypto';
 import { config } from '../config.js';
+import { createAccessControl, getRequestIdentity, registerProtectedResourceMetadata } from './auth.js';
+import { closeBrowserPool } from '../scrapers/browser-pool.js';
+import { closeAllSessions, closeSessionsForTransport } from '../scrapers/browser-sessions.js';
 
 /**
  * Sets up the appropriate transport for the MCP server
- * @param server The MCP server instance
+ * @param createServer Creates the MCP server instance of a client session
  * @param serverName Server name for logging
  * @param serverVersion Server version for logging
  */
-export function setupTransport(server: McpServer, serverName: string, serverVersion: string): void {
+export function setupTransport(createServer: () => McpServer, serverName: string, serverVersion: string): void {
   switch (config.transportType) {
     case 'stdio':
-      setupStdioTransport(server, serverName, serverVersion);
+      setupStdioTransport(createServer(), serverName, serverVersion);
       break;
     case 'sse':
-      setupSSETransport(server, serverName, serverVersion);
+      setupSSETransport(createServer, serverName, serverVersion);
       break;
     case 'http':
-      setupHTTPTransport(server, serverName, serverVersion);
+      setupHTTPTransport(createServer, serverName, serverVersion);
       break;
     default:
       console.error(`Unknown transport type: ${config.transportType}. Use 'stdio', 'sse', or 'http'.`);
@@ -30,45 +33,58 @@ export function setupTransport(server: McpServer, serverName: string, serverVers
 }
 
 /**
- * Sets up an SSE transport over HTTP
- * @param server The MCP server instance
+ * Sets up an SSE transport over HTTP, with an MCP server instance per connection
+ * @param createServer Creates the MCP server instance of a client session
  * @param serverName Server name for logging
  * @param serverVersion Server version for logging
  */
-function setupSSETransport(server: McpServer, serverName: string, serverVersion: string): void {
+function setupSSETransport(createServer: () => McpServer, serverName: string, serverVersion: string): void {
   // Setup Express server for SSE mode
   const app = express();
+  const accessControl = createAccessControl();
+  registerProtectedResourceMetadata(app);
   
   // to support multiple simultaneous connections we have a lookup object from
   // sessionId to transport
   const transports: {[sessionId: string]: SSEServerTransport} = {};
+  // Identity that opened each session, so that other clients cannot post to it
+  const owners: {[sessionId: string]: string | undefined} = {};
   
-  app.get("/sse", async (_: Request, res: Response) => {
+  app.get("/sse", ...accessControl, async (req: Request, res: Response) => {
     console.error('Received SSE connection request');
     const transport = new SSEServerTransport('/messages', res);
     transports[transport.sessionId] = transport;
+    owners[transport.sessionId] = getRequestIdentity(req);
     res.on("close", () => {
       console.error(`SSE connection closed for session ${transport.sessionId}`);
       delete transports[transport.sessionId];
+      delete owners[transport.sessionId];
+      closeSessionsForTransport(transport.sessionId).catch((error) => {
+        console.error(`Error closing browsing sessions for session ${transport.sessionId}:`, error);
+      });
     });
-    await server.connect(transport);
+    await createServer().connect(transport);
   });
   
-  app.post("/messages", async (req: Request, res: Response) => {
+  app.post("/messages", ...accessControl, async (req: Request, res: Response) => {
     console.error('Received SSE message POST request');
     const sessionId = req.query.sessionId as string;
     const transport = transports[sessionId];
-    if (transport) {
-      await transport.handlePostMessage(req, res);
+    if (transport && owners[sessionId] !== getRequestIdentity(req)) {
+      console.error(`Rejected SSE message for session ${sessionId} from a different client`);
+      res.status(403).send('Session belongs to a different client');
+    } else if (transport) {
+      // The body was already parsed by the access control middleware
+      await transport.handlePostMessage(req, res, req.body);
     } else {
       console.error(`No SSE transport found for sessionId: ${sessionId}`);
       res.status(400).send('No transport found for sessionId');
     }
   });
   
-  const webserver = app.listen(config.serverPort, () => {
-    console.error(`${serverName} v${serverVersion} is running on port ${config.serverPort} with SSE transport`);
-    console.error(`Connect to: http://localhost:${config.serverPort}/sse`);
+  const webserver = app.listen(config.serverPort, config.bindHost, () => {
+    console.error(`${serverName} v${serverVersion} is running on ${config.bindHost}:${config.serverPort} with SSE transport`);
+    console.error(`Connect to: http://${formatHost(config.bindHost)}:${config.serverPort}/sse`);
     if (config.apiBaseUrl) {
       console.error(`Using custom API endpoint: ${config.apiBaseUrl}`);
     }
@@ -96,6 +112,8 @@ function setupSSETransport(server: McpServer, serverName: string, serverVersion:
       }
     }
 
+    await closeAllSessions();
+    await closeBrowserPool();
     console.error('SSE server shutdown complete');
     process.exit(0);
   });
@@ -105,20 +123,41 @@ function setupSSETransport(server: McpServer, serverName: string, serverVersion:
 }
 
 /**
- * Sets up an HTTP transport for web-based communication
- * @param server The MCP server instance
+ * Sets up an HTTP transport for web-based communication, with an MCP server instance per session
+ * @param createServer Creates the MCP server instance of a client session
  * @param serverName Server name for logging
  * @param serverVersion Server version for logging
  */
-function setupHTTPTransport(server: McpServer, serverName: string, serverVersion: string): void {
+function setupHTTPTransport(createServer: () => McpServer, serverName: string, serverVersion: string): void {
   console.error("Starting MCP server with HTTP transport...");
   
   const app = express();
+  const accessControl = createAccessControl();
+  registerProtectedResourceMetadata(app);
   
   const transports: Map<string, StreamableHTTPServerTransport> = new Map<string, StreamableHTTPServerTransport>();
+  // Identity that initialized each session, so that other clients cannot use it
+  const owners: Map<string, string | undefined> = new Map<string, string | undefined>();
+
+  // Rejects requests for a session that was initialized by a different client
+  const checkSessionOwner = (req: Request, res: Response, sessionId: string): boolean => {
+    if (owners.get(sessionId) === getRequestIdentity(req)) {
+      return true;
+    }
+    console.error(`Rejected request for session ${sessionId} from a different client`);
+    res.status(403).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: 'Forbidden: session belongs to a different client',
+      },
+      id: null,
+    });
+    return false;
+  };
   
   // Handle POST requests for MCP initialization and method calls
-  app.post('/mcp', async (req: Request, res: Response) => {
+  app.post('/mcp', ...accessControl, async (req: Request, res: Response) => {
     console.error('Received MCP POST request');
     try {
       // Check for existing session ID
@@ -126,6 +165,9 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
       let transport: StreamableHTTPServerTransport;
 
       if (sessionId && transports.has(sessionId)) {
+        if (!checkSessionOwner(req, res, sessionId)) {
+          return;
+        }
         // Reuse existing transport
         transport = transports.get(sessionId)!;
       } else if (!sessionId) {
@@ -136,22 +178,31 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
             // Store the transport by session ID when session is initialized
             console.error(`Session initialized with ID: ${sessionId}`);
             transports.set(sessionId, transport);
+            owners.set(sessionId, getRequestIdentity(req));
           }
         });
 
-        // Set up onclose handler to clean up transport when closed
-        transport.onclose = async () => {
+        // Connect the transport to the MCP server BEFORE handling the request
+        const server = createServer();
+        await server.connect(transport);
+
+        // Clean up when the transport closes; connecting replaced the transport's own onclose handler
+        const onclose = server.server.onclose;
+        server.server.onclose = () => {
+          onclose?.();
           const sid = transport.sessionId;
           if (sid && transports.has(sid)) {
             console.error(`Transport closed for session ${sid}, removing from transports map`);
             transports.delete(sid);
+            owners.delete(sid);
+            closeSessionsForTransport(sid).catch((error) => {
+              console.error(`Error closing browsing sessions for session ${sid}:`, error);
+            });
           }
         };
 
-        // Connect the transport to the MCP server BEFORE handling the request
-        await server.connect(transport);
-
-        await transport.handleRequest(req, res);
+        // The body was already parsed by the access control middleware
+        await transport.handleRequest(req, res, req.body);
         return; // Already handled
       } else {
         // Invalid request - no session ID or not initialization request
@@ -167,7 +218,7 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
       }
 
       // Handle the request with existing transport
-      await transport.handleRequest(req, res);
+      await transport.handleRequest(req, res, req.body);
     } catch (error) {
       console.error('Error handling MCP request:', error);
       if (!res.headersSent) {
@@ -184,7 +235,7 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
   });
 
   // Handle GET requests for SSE streams
-  app.get('/mcp', async (req: Request, res: Response) => {
+  app.get('/mcp', ...accessControl, async (req: Request, res: Response) => {
     console.error('Received MCP GET request');
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     if (!sessionId || !transports.has(sessionId)) {
@@ -200,6 +251,10 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
     }
 
     // Check for Last-Event-ID header for resumability
+    if (!checkSessionOwner(req, res, sessionId)) {
+      return;
+    }
+
     const lastEventId = req.headers['last-event-id'] as string | undefined;
     if (lastEventId) {
       console.error(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
@@ -212,7 +267,7 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
   });
 
   // Handle DELETE requests for session termination
-  app.delete('/mcp', async (req: Request, res: Response) => {
+  app.delete('/mcp', ...accessControl, async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     if (!sessionId || !transports.has(sessionId)) {
       res.status(400).json({
@@ -226,6 +281,10 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
       return;
     }
 
+    if (!checkSessionOwner(req, res, sessionId)) {
+      return;
+    }
+
     console.error(`Received session termination request for session ${sessionId}`);
 
     try {
@@ -246,9 +305,9 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
     }
   });
   
-  const webserver = app.listen(config.serverPort, () => {
-    console.error(`${serverName} v${serverVersion} is running on port ${config.serverPort} with HTTP transport`);
-    console.error(`Connect to: http://localhost:${config.serverPort}/mcp`);
+  const webserver = app.listen(config.serverPort, config.bindHost, () => {
+    console.error(`${serverName} v${serverVersion} is running on ${config.bindHost}:${config.serverPort} with HTTP transport`);
+    console.error(`Connect to: http://${formatHost(config.bindHost)}:${config.serverPort}/mcp`);
     if (config.apiBaseUrl) {
       console.error(`Using custom API endpoint: ${config.apiBaseUrl}`);
     }
@@ -276,6 +335,8 @@ function setupHTTPTransport(server: McpServer, serverName: string, serverVersion
       }
     }
 
+    await closeAllSessions();
+    await closeBrowserPool();
     console.error('Server shutdown complete');
     process.exit(0);
   });
@@ -304,4 +365,16 @@ function setupStdioTransport(server: McpServer, serverName: string, serverVersio
     console.error("Error connecting transport:", error);
     process.exit(1);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Formats the bind host for use in a URL
+ * @param host The bind host
+ * @returns The host, bracketed if it is an IPv6 address, or localhost for the wildcard addresses
+ */
+function formatHost(host: string): string {
+  if (host === '0.0.0.0' || host === '::') {
+    return 'localhost';
+  }
+  return host.includes(':') ? `[${host}]` : host;
+}
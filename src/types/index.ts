@@ -1,27 +1,449 @@
-import { Page, ElementHandle } from 'puppeteer';
+import { Page, ElementHandle, HTTPRequest } from 'puppeteer';
 
 // AI action recommendation types
 export interface AIAction {
-  action: 'click' | 'scroll' | 'type' | 'wait' | 'none';
+  action: 'click' | 'scroll' | 'type' | 'wait' | 'select' | 'press' | 'hover' | 'back' | 'dismissDialog' | 'fillForm' | 'none';
+  elementId?: number;
   targetText?: string;
   targetSelector?: string;
   inputText?: string;
+  key?: string;
+  fields?: AIFormField[];
   scrollAmount?: number;
   waitTime?: number;
   reason?: string;
 }
 
-// Scraper options
-export interface WebpageScrapeOptions {
+// A field of a fillForm action, by element id or selector: the text of an input, the option value or label
+// of a select, or "true"/"false" for a checkbox or radio button
+export interface AIFormField {
+  elementId?: number;
+  targetSelector?: string;
+  value: string;
+}
+
+// An interactive element numbered on the screenshot sent to the vision model
+export interface MarkedElement {
+  id: number;
+  tag: string;
+  text: string;
+}
+
+// A single prompt sent to a vision model, with base64-encoded PNG screenshots
+export interface VisionRequest {
+  prompt: string;
+  images: string[];
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+// Backend capable of answering a vision request with the model's raw text output
+export interface VisionProvider {
+  name: string;
+  complete(request: VisionRequest): Promise<string>;
+}
+
+// Output formats supported for scraped content
+export type OutputFormat = 'markdown' | 'text' | 'html' | 'json';
+
+// Receives human-readable updates as a long-running operation moves through its stages
+export type ProgressReporter = (message: string) => void;
+
+// Lets the caller follow a long-running operation and cancel it
+export interface OperationHooks {
+  signal?: AbortSignal;
+  onProgress?: ProgressReporter;
+}
+
+// A cookie to set before the page loads; without url or domain it applies to the page URL
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+// Browser settings applied to a page before it loads anything; unset fields fall back to the BROWSER_* defaults
+export interface BrowserContextOptions {
+  device?: string;
+  viewport?: { width: number; height: number; deviceScaleFactor?: number };
+  locale?: string;
+  timezone?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  userAgent?: string;
+  headers?: Record<string, string>;
+  cookies?: BrowserCookie[];
+  storageState?: string;
+}
+
+// Cookies and localStorage saved from a browser, in the storage-state format used by Playwright
+export interface StorageState {
+  cookies?: BrowserCookie[];
+  origins?: { origin: string; localStorage?: { name: string; value: string }[] }[];
+}
+
+// A scripted login for the hosts matching domain ("example.com" or "*.example.com"). The credentials come from the
+// vault entry named credential, or from the environment variables named by usernameEnv and passwordEnv; fields without
+// a selector are found by heuristics or by the vision model
+export interface LoginProfile {
+  domain: string;
+  loginUrl: string;
+  credential?: string;
+  usernameEnv?: string;
+  passwordEnv?: string;
+  usernameSelector?: string;
+  passwordSelector?: string;
+  submitSelector?: string;
+  success?: LoginSuccessCheck;
+}
+
+// What shows that a login worked: a visible element, a part of the URL or a text; without any, the password field must be gone
+export interface LoginSuccessCheck {
+  selector?: string;
+  url?: string;
+  text?: string;
+}
+
+// A username and password, as read from the vault or the environment; never logged or shown to a model
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// How a page was authenticated: with the stored cookies of an earlier login, or by logging in, and until when the cookies are reused
+export interface LoginSummary {
+  profile: string;
+  status: 'reused' | 'loggedIn';
+  expiresAt: number;
+}
+
+// A proxy as handed to Chrome: the server without credentials, which are answered through page.authenticate
+export interface ProxySettings {
+  server: string;
+  username?: string;
+  password?: string;
+}
+
+// A response to a request the server makes itself, such as robots.txt or a cache revalidation; the body may be truncated
+export interface ServerFetchResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+// Requests a page must not make, on top of the BLOCK_* defaults
+export interface ResourceBlockingOptions {
+  resourceTypes?: string[];
+  domains?: string[];
+  trackers?: boolean;
+}
+
+// Decides whether a request is blocked, returning the reason, or undefined to let it through
+export type RequestFilter = (request: HTTPRequest) => string | undefined;
+
+// Options of the interaction pass; the vision model is only consulted when an overlay remains, in fast mode even when the heuristics did nothing
+export interface InteractionOptions extends OperationHooks {
+  fast?: boolean;
+  dryRun?: boolean;
+}
+
+// How an interaction step turned out: the overlay went away, the page changed but an overlay remains, nothing
+// changed, the action could not be executed, it was skipped as a repeat of an ineffective action, the action
+// policy blocked it, or it was only proposed in a dry run
+export type InteractionOutcome = 'resolved' | 'changed' | 'no-effect' | 'failed' | 'repeated' | 'blocked' | 'proposed';
+
+// One step of the interaction loop
+export interface InteractionLogEntry {
+  step: number;
+  source: 'heuristics' | 'dialog' | 'vision';
+  action: string;
+  reason?: string;
+  outcome: InteractionOutcome;
+  violation?: string;
+}
+
+// What the interaction loop did on a page
+export interface InteractionResult {
+  interacted: boolean;
+  log: InteractionLogEntry[];
+}
+
+// Conditions a page must meet after navigation before it is processed, checked in this order
+export interface WaitForOptions {
+  selector?: string;
+  text?: string;
+  function?: string;
+  delayMs?: number;
+}
+
+// Deterministic expansion of a page before extraction: infinite scroll, "load more" buttons and collapsed sections
+export interface ExpansionOptions {
+  scroll?: boolean;
+  loadMore?: boolean;
+  details?: boolean;
+  maxSteps?: number;
+  maxTimeMs?: number;
+  maxHeight?: number;
+}
+
+// What the expansion of a page did, and why it stopped
+export interface ExpansionSummary {
+  scrollSteps: number;
+  loadMoreClicks: number;
+  expandedSections: number;
+  finalHeight: number;
+  stopReason: 'complete' | 'maxSteps' | 'maxTime' | 'maxHeight' | 'navigated';
+}
+
+// Navigation and interaction options shared by every operation that loads a page
+export interface PageLoadOptions extends OperationHooks {
   url: string;
+  browserContext?: BrowserContextOptions;
+  proxy?: string;
+  blocking?: ResourceBlockingOptions;
+  fast?: boolean;
+  dryRun?: boolean;
+  waitFor?: WaitForOptions;
+  expand?: ExpansionOptions;
+  navigationTimeoutMs?: number;
+  timeoutMs?: number;
   autoInteract?: boolean;
   maxInteractionAttempts?: number;
   waitForNetworkIdle?: boolean;
 }
 
+// What happened while loading a page, reported alongside the result
+export interface PageLoadInfo {
+  warnings: string[];
+  etag?: string;
+  lastModified?: string;
+  timings: PageTimings;
+  network: () => NetworkUsage;
+  interactions?: InteractionLogEntry[];
+  expansion?: ExpansionSummary;
+  login?: LoginSummary;
+}
+
+// Time spent in each phase of an operation, in milliseconds
+export interface PageTimings {
+  loginMs?: number;
+  navigationMs?: number;
+  settleMs?: number;
+  interactionMs?: number;
+  expansionMs?: number;
+  extractionMs?: number;
+  totalMs?: number;
+}
+
+// Requests made by a page, how many were blocked, and the bytes received over the network
+export interface NetworkUsage {
+  requests: number;
+  blockedRequests: number;
+  transferredBytes: number;
+}
+
+// Scraper options
+export interface WebpageScrapeOptions extends PageLoadOptions {
+  format?: OutputFormat;
+  collectLinks?: boolean;
+}
+
+// What part of the page a screenshot covers
+export type CaptureMode = 'viewport' | 'fullPage' | 'element';
+
+// Capture options
+export interface WebpageCaptureOptions extends PageLoadOptions {
+  mode?: CaptureMode;
+  selector?: string;
+  includePdf?: boolean;
+}
+
+// Article metadata extracted by Readability
+export interface PageMetadata {
+  url?: string;
+  title?: string;
+  byline?: string;
+  excerpt?: string;
+  siteName?: string;
+  lang?: string;
+  publishedTime?: string;
+}
+
+// A heading-delimited section of the markdown content
+export interface PageSection {
+  heading: string;
+  level: number;
+  markdown: string;
+}
+
+// A piece of a long markdown document returned one page at a time
+export interface MarkdownChunk {
+  index: number;
+  markdown: string;
+  headings: { heading: string; level: number }[];
+  estimatedTokens: number;
+}
+
+// A hyperlink found in the main content
+export interface PageLink {
+  text: string;
+  href: string;
+}
+
+// Structured representation returned by the "json" output format
+export interface StructuredPage {
+  metadata: PageMetadata;
+  sections: PageSection[];
+  links: PageLink[];
+  markdown: string;
+}
+
+// Processed page content in the requested format, along with its metadata
+export interface ProcessedContent {
+  content: string;
+  metadata: PageMetadata;
+}
+
 // Scraper result
 export interface ScrapeResult {
   data?: string;
+  metadata?: PageMetadata;
+  canonicalUrl?: string;
+  links?: string[];
+  warnings?: string[];
+  etag?: string;
+  lastModified?: string;
+  cache?: CacheInfo;
+  interactions?: InteractionLogEntry[];
+  expansion?: ExpansionSummary;
+  login?: LoginSummary;
+  timings?: PageTimings;
+  network?: NetworkUsage;
+  error?: { message: string };
+}
+
+// How a request uses the content cache: serve cached results, skip the cache, or force a fresh scrape and store it
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+// Cache outcome reported with a scrape result
+export interface CacheInfo {
+  status: 'hit' | 'miss' | 'revalidated' | 'bypass' | 'refresh';
+  key: string;
+  storedAt?: number;
+  expiresAt?: number;
+}
+
+// A cached scrape result with its freshness information
+export interface CacheEntry {
+  key: string;
+  url: string;
+  format: OutputFormat;
+  result: ScrapeResult;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Crawl options
+export interface CrawlOptions extends PageLoadOptions {
+  format?: OutputFormat;
+  maxDepth?: number;
+  maxPages?: number;
+  concurrency?: number;
+  delayMs?: number;
+  sameOrigin?: boolean;
+  pathPrefix?: string;
+  include?: string[];
+  exclude?: string[];
+}
+
+// A single page visited during a crawl
+export interface CrawledPage {
+  url: string;
+  canonicalUrl: string;
+  depth: number;
+  title?: string;
+  content?: string;
+  duplicateOf?: string;
+  warnings?: string[];
+  interactions?: InteractionLogEntry[];
+  expansion?: ExpansionSummary;
+  login?: LoginSummary;
+  timings?: PageTimings;
+  network?: NetworkUsage;
+  error?: string;
+}
+
+// Crawl result
+export interface CrawlResult {
+  pages: CrawledPage[];
+  index: string;
+}
+
+// Persistent browsing session that keeps a single page open across tool calls
+export interface BrowserSession {
+  id: string;
+  page: Page;
+  transportSessionId?: string;
+  createdAt: number;
+  lastUsed: number;
+}
+
+// Subset of JSON Schema understood by the structured extractor
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+// Shorthand for a flat schema: one named field of the record to extract
+export interface ExtractionField {
+  name: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  required?: boolean;
+}
+
+// Structured extraction options
+export interface StructuredExtractionOptions extends PageLoadOptions {
+  schema: JsonSchema;
+  instructions?: string;
+  maxRetries?: number;
+  screenshots?: number;
+}
+
+// Structured extraction result
+export interface StructuredExtractionResult {
+  data?: unknown;
+  attempts?: number;
+  metadata?: PageMetadata;
+  warnings?: string[];
+  interactions?: InteractionLogEntry[];
+  expansion?: ExpansionSummary;
+  login?: LoginSummary;
+  timings?: PageTimings;
+  network?: NetworkUsage;
+  error?: { message: string };
+}
+
+// Capture result, with base64-encoded PNG screenshot and PDF
+export interface CaptureResult {
+  screenshot?: string;
+  pdf?: string;
+  warnings?: string[];
+  interactions?: InteractionLogEntry[];
+  expansion?: ExpansionSummary;
+  login?: LoginSummary;
+  timings?: PageTimings;
+  network?: NetworkUsage;
   error?: { message: string };
 }
 
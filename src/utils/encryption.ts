@@ -0,0 +1,68 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// Format version of encrypted payloads, so that the key derivation or cipher can change later
+const PAYLOAD_VERSION = 1;
+// AES-256-GCM with a random salt per payload, whose key is derived from the passphrase with scrypt
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// An encrypted payload as stored on disk, with base64-encoded fields
+interface EncryptedPayload {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Encrypts a text with a passphrase
+ * @param plaintext The text to encrypt
+ * @param passphrase The passphrase the key is derived from
+ * @returns The encrypted payload as JSON
+ */
+export function encryptText(plaintext: string, passphrase: string): string {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, scryptSync(passphrase, salt, KEY_LENGTH), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  const payload: EncryptedPayload = {
+    version: PAYLOAD_VERSION,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Decrypts a payload created by encryptText
+ * @param payload The encrypted payload as JSON
+ * @param passphrase The passphrase it was encrypted with
+ * @returns The decrypted text
+ * @throws If the payload is malformed, or the passphrase is wrong or the data was tampered with
+ */
+export function decryptText(payload: string, passphrase: string): string {
+  let parsed: EncryptedPayload;
+  try {
+    parsed = JSON.parse(payload) as EncryptedPayload;
+  } catch {
+    throw new Error('Not an encrypted payload');
+  }
+  if (parsed.version !== PAYLOAD_VERSION || !parsed.salt || !parsed.iv || !parsed.tag || !parsed.data) {
+    throw new Error(`Unsupported encrypted payload (version ${parsed.version})`);
+  }
+
+  const decipher = createDecipheriv(CIPHER, scryptSync(passphrase, Buffer.from(parsed.salt, 'base64'), KEY_LENGTH), Buffer.from(parsed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    // Never echo the payload: the message must not help recover its content
+    throw new Error('Could not decrypt: wrong passphrase or corrupted data');
+  }
+}
@@ -0,0 +1,88 @@
+import { z, ZodTypeAny } from 'zod';
+import { ExtractionField, JsonSchema } from '../types/index.js';
+
+/**
+ * Builds a zod validator from a JSON Schema (types, properties, required, items, enum)
+ * @param schema The JSON Schema
+ * @returns The equivalent zod schema; unsupported keywords are ignored
+ */
+export function jsonSchemaToZod(schema: JsonSchema): ZodTypeAny {
+  if (schema.enum && schema.enum.length > 0) {
+    const literals = schema.enum.map(value => z.literal(value));
+    return literals.length === 1
+      ? literals[0]!
+      : z.union(literals as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    return schema.properties ? objectToZod(schema) : z.any();
+  }
+
+  const variants = types.map(type => {
+    switch (type) {
+      case 'object':
+        return objectToZod(schema);
+      case 'array':
+        return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.any());
+      case 'string':
+        return z.string();
+      case 'number':
+        return z.number();
+      case 'integer':
+        return z.number().int();
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      default:
+        return z.any();
+    }
+  });
+
+  return variants.length === 1
+    ? variants[0]!
+    : z.union(variants as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+/**
+ * Builds a JSON Schema for an object from a list of fields. Every field is nullable, since the model is told to use
+ * null for values it cannot find; required fields must be present, the others may be left out.
+ * @param fields The fields of the object, given as names or field descriptions
+ * @returns The JSON Schema
+ */
+export function fieldsToJsonSchema(fields: Array<string | ExtractionField>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const field of fields) {
+    const { name, type = 'string', description, required: isRequired = true } =
+      typeof field === 'string' ? { name: field } as ExtractionField : field;
+
+    properties[name] = type === 'array'
+      ? { type: ['array', 'null'], items: { type: 'string' }, description }
+      : { type: [type, 'null'], description };
+    if (isRequired) {
+      required.push(name);
+    }
+  }
+
+  return { type: 'object', properties, required };
+}
+
+/**
+ * Builds a zod object from the properties of an object schema
+ * @param schema The object JSON Schema
+ * @returns The zod object, with non-required properties made optional and nullable
+ */
+function objectToZod(schema: JsonSchema): ZodTypeAny {
+  const required = new Set(schema.required || []);
+  const shape: Record<string, ZodTypeAny> = {};
+
+  for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+    const property = jsonSchemaToZod(propertySchema);
+    shape[key] = required.has(key) ? property : property.nullable().optional();
+  }
+
+  return z.object(shape).passthrough();
+}
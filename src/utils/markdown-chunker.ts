@@ -0,0 +1,157 @@
+import { splitMarkdownSections } from './markdown-sections.js';
+import { MarkdownChunk } from '../types/index.js';
+
+/**
+ * Splits markdown into chunks of at most maxChars, preferring section boundaries and never cutting
+ * inside a code fence or table (oversized ones are split into several complete fences or tables)
+ * @param markdown The markdown content
+ * @param maxChars Maximum number of characters per chunk
+ * @returns The chunks in document order
+ */
+export function chunkMarkdown(markdown: string, maxChars: number): MarkdownChunk[] {
+  const pieces: { text: string; heading?: { heading: string; level: number } }[] = [];
+
+  for (const section of splitMarkdownSections(markdown)) {
+    const heading = section.level > 0 ? { heading: section.heading, level: section.level } : undefined;
+    if (section.markdown.length <= maxChars) {
+      pieces.push({ text: section.markdown, heading });
+      continue;
+    }
+    const parts = splitIntoBlocks(section.markdown)
+      .flatMap(block => block.length <= maxChars ? [block] : splitOversizedBlock(block, maxChars));
+    // Keep the heading line together with the start of its content
+    if (heading && parts.length > 1 && parts[0]!.length + 2 + parts[1]!.length <= maxChars) {
+      parts.splice(0, 2, `${parts[0]}\n\n${parts[1]}`);
+    }
+    parts.forEach((text, index) => pieces.push({ text, heading: index === 0 ? heading : undefined }));
+  }
+
+  const chunks: MarkdownChunk[] = [];
+  let texts: string[] = [];
+  let headings: { heading: string; level: number }[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (texts.length === 0) return;
+    const text = texts.join('\n\n');
+    chunks.push({ index: chunks.length, markdown: text, headings, estimatedTokens: estimateTokens(text) });
+    texts = [];
+    headings = [];
+    size = 0;
+  };
+
+  for (const piece of pieces) {
+    if (texts.length > 0 && size + 2 + piece.text.length > maxChars) {
+      flush();
+    }
+    texts.push(piece.text);
+    size += (texts.length > 1 ? 2 : 0) + piece.text.length;
+    if (piece.heading) {
+      headings.push(piece.heading);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Roughly estimates the number of tokens of a text (about four characters per token for English prose)
+ * @param text The text
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits markdown into blocks separated by blank lines, keeping code fences whole
+ * @param markdown The markdown content
+ * @returns The blocks
+ */
+function splitIntoBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```+|~~~+)/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    }
+
+    if (fence === null && !fenceMatch && line.trim() === '') {
+      if (lines.length > 0) {
+        blocks.push(lines.join('\n'));
+        lines = [];
+      }
+    } else {
+      lines.push(line);
+    }
+  }
+  if (lines.length > 0) {
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits a single block that exceeds the chunk size, repeating fence markers or table headers on each part
+ * @param block The oversized block
+ * @param maxChars Maximum number of characters per part
+ * @returns The parts
+ */
+function splitOversizedBlock(block: string, maxChars: number): string[] {
+  const lines = block.split('\n');
+  let prefix: string[] = [];
+  let suffix: string[] = [];
+  let body = lines;
+
+  const fenceMatch = lines[0]!.match(/^\s*(```+|~~~+)/);
+  if (fenceMatch) {
+    // Code fence: reopen and close the fence around every part
+    const marker = fenceMatch[1]!;
+    const closed = lines.length > 1 && lines[lines.length - 1]!.trim().startsWith(marker);
+    prefix = [lines[0]!];
+    suffix = [marker];
+    body = lines.slice(1, closed ? -1 : undefined);
+  } else if (lines[0]!.trim().startsWith('|') && lines[1]?.match(/^\s*\|?\s*:?-{3,}/)) {
+    // Table: repeat the header and separator rows on every part
+    prefix = lines.slice(0, 2);
+    body = lines.slice(2);
+  }
+
+  const overhead = [...prefix, ...suffix].reduce((sum, line) => sum + line.length + 1, 0);
+  const budget = Math.max(1, maxChars - overhead);
+  const parts: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    parts.push([...prefix, ...current, ...suffix].join('\n'));
+    current = [];
+    size = 0;
+  };
+
+  for (const line of body) {
+    // A single line longer than the budget can only be cut
+    const segments = line.length > budget ? line.match(new RegExp(`[\\s\\S]{1,${budget}}`, 'g'))! : [line];
+    for (const segment of segments) {
+      if (current.length > 0 && size + segment.length + 1 > budget) {
+        flush();
+      }
+      current.push(segment);
+      size += segment.length + 1;
+    }
+  }
+  flush();
+
+  return parts;
+}
@@ -0,0 +1,44 @@
+import { PageSection } from '../types/index.js';
+
+/**
+ * Splits markdown into sections at ATX headings, ignoring heading-like lines inside code fences
+ * @param markdown The markdown content to split
+ * @returns The sections in document order; content before the first heading gets an empty heading and level 0
+ */
+export function splitMarkdownSections(markdown: string): PageSection[] {
+  const sections: PageSection[] = [];
+  let current: PageSection = { heading: '', level: 0, markdown: '' };
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    current.markdown = lines.join('\n').trim();
+    if (current.markdown || current.heading) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```+|~~~+)/);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    }
+
+    const headingMatch = fence === null && !fenceMatch ? line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/) : null;
+    if (headingMatch) {
+      flush();
+      current = { heading: headingMatch[2]!, level: headingMatch[1]!.length, markdown: '' };
+      lines = [line];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
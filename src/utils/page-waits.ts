@@ -0,0 +1,93 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { Page } from 'puppeteer';
+
+import { WaitForOptions } from '../types/index.js';
+
+/**
+ * Waits until the DOM stops changing for a quiet period, or the timeout elapses, whichever comes first
+ * @param page Puppeteer page instance
+ * @param options The quiet period and the maximum wait in milliseconds, and the abort signal of the operation
+ * @throws If the signal aborts
+ */
+export async function waitForDomStable(
+  page: Page,
+  { quietMs = 500, timeoutMs = 2000, signal }: { quietMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<void> {
+  signal?.throwIfAborted();
+  try {
+    await page.evaluate((quiet, timeout) => new Promise<void>((resolve) => {
+      const done = () => {
+        observer.disconnect();
+        clearTimeout(quietTimer);
+        clearTimeout(deadline);
+        resolve();
+      };
+      let quietTimer = setTimeout(done, quiet);
+      const deadline = setTimeout(done, timeout);
+      const observer = new MutationObserver(() => {
+        clearTimeout(quietTimer);
+        quietTimer = setTimeout(done, quiet);
+      });
+      observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+    }), quietMs, timeoutMs);
+  } catch {
+    // A navigation replaced the document while we were watching it; the new one is as settled as it gets
+    signal?.throwIfAborted();
+  }
+}
+
+/**
+ * Waits for every requested condition in turn: an element to be visible, a text to appear, a JavaScript expression
+ * to become truthy, then a fixed delay
+ * @param page Puppeteer page instance
+ * @param waitFor The conditions to wait for
+ * @param options The time allowed for all conditions together in milliseconds, and the abort signal of the operation
+ * @throws If a condition is not met in time or the signal aborts
+ */
+export async function waitForConditions(
+  page: Page,
+  waitFor: WaitForOptions,
+  { timeoutMs, signal }: { timeoutMs: number; signal?: AbortSignal }
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  const remaining = () => Math.max(1, deadline - Date.now());
+
+  try {
+    if (waitFor.selector) {
+      await page.waitForSelector(waitFor.selector, { visible: true, timeout: remaining(), signal });
+    }
+    if (waitFor.text) {
+      await page.waitForFunction(
+        (text: string) => !!document.body && document.body.innerText.includes(text),
+        { timeout: remaining(), polling: 250, signal },
+        waitFor.text
+      );
+    }
+    if (waitFor.function) {
+      await page.waitForFunction(waitFor.function, { timeout: remaining(), polling: 250, signal });
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for ${describeConditions(waitFor)}`);
+    }
+    throw error;
+  }
+
+  if (waitFor.delayMs) {
+    await sleep(waitFor.delayMs, undefined, { signal });
+  }
+}
+
+/**
+ * Describes the conditions of a wait for error messages
+ * @param waitFor The conditions
+ * @returns A description such as 'selector "#app"'
+ */
+function describeConditions(waitFor: WaitForOptions): string {
+  return [
+    waitFor.selector && `selector "${waitFor.selector}"`,
+    waitFor.text && `text "${waitFor.text}"`,
+    waitFor.function && `function "${waitFor.function}"`,
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,104 @@
+/**
+ * Normalizes a URL for deduplication: drops the fragment, tracking parameters, default ports and trailing slashes
+ * @param url The URL to normalize
+ * @returns The normalized URL, or undefined if it is not a valid http(s) URL
+ */
+export function normalizeUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return undefined;
+  }
+
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (/^(utm_|fbclid$|gclid$|mc_)/i.test(key)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.href;
+}
+
+/**
+ * Tests a URL against a glob pattern; patterns containing "://" match the full URL, others match the path and query
+ * @param url The URL to test
+ * @param pattern The glob, where "**" matches anything, "*" anything but "/", and "?" a single character
+ * @returns Whether the URL matches
+ */
+export function matchesGlob(url: string, pattern: string): boolean {
+  const parsed = new URL(url);
+  const target = pattern.includes('://') ? parsed.href : parsed.pathname + parsed.search;
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Checks a proxy URL: the scheme must be http, https, socks4 or socks5, and SOCKS proxies cannot take credentials
+ * @param value The proxy URL
+ * @returns A description of the problem, or undefined if the URL is valid
+ */
+export function getProxyUrlProblem(value: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return `"${value}" is not a URL`;
+  }
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!['http', 'https', 'socks4', 'socks5'].includes(scheme)) {
+    return `scheme "${scheme}" is not supported (use http, https, socks4 or socks5)`;
+  }
+  if (!parsed.hostname) {
+    return `proxy ${scheme}://... has no host`;
+  }
+  // Chrome only answers authentication challenges of HTTP proxies
+  if (scheme.startsWith('socks') && (parsed.username || parsed.password)) {
+    return `SOCKS proxies do not support credentials (${parsed.host})`;
+  }
+  return undefined;
+}
+
+/**
+ * Matches a hostname against a host pattern: "example.com" matches that host exactly, "*.example.com" any subdomain
+ * @param hostname The lowercase hostname
+ * @param pattern The host pattern
+ * @returns Whether the hostname matches
+ */
+export function matchesHostPattern(hostname: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith('*.')) {
+    return hostname.endsWith(normalized.slice(1));
+  }
+  return hostname === normalized;
+}
+
+/**
+ * Converts a glob pattern to an anchored regular expression
+ * @param pattern The glob pattern
+ * @returns The regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv';
+import fs from 'fs';
+
+import { decryptText, encryptText } from './utils/encryption.js';
+
+// Load CREDENTIAL_VAULT_KEY like the server does; the server configuration itself is not needed here
+dotenv.config();
+
+/**
+ * Encrypts a credentials JSON file for CREDENTIAL_VAULT, or decrypts a vault to edit it, with CREDENTIAL_VAULT_KEY
+ * as the passphrase. The result is written to stdout.
+ *
+ *   npx -p puppeteer-vision-mcp-server puppeteer-vision-vault encrypt credentials.json > vault.json
+ *   npx -p puppeteer-vision-mcp-server puppeteer-vision-vault decrypt vault.json > credentials.json
+ */
+function main(): void {
+  const [command, file] = process.argv.slice(2);
+  const passphrase = process.env.CREDENTIAL_VAULT_KEY;
+  if (!['encrypt', 'decrypt'].includes(command || '') || !file) {
+    console.error('Usage: puppeteer-vision-vault encrypt|decrypt <file>');
+    process.exit(1);
+  }
+  if (!passphrase) {
+    console.error('Error: CREDENTIAL_VAULT_KEY environment variable is not set.');
+    process.exit(1);
+  }
+
+  try {
+    const input = fs.readFileSync(file, 'utf8');
+    if (command === 'encrypt') {
+      // Refuse to encrypt something the server could not read back; JSON errors quote the input, so they are not shown
+      try {
+        JSON.parse(input);
+      } catch {
+        throw new Error('not valid JSON');
+      }
+      process.stdout.write(`${encryptText(input, passphrase)}\n`);
+    } else {
+      process.stdout.write(decryptText(input, passphrase));
+    }
+  } catch (error: any) {
+    console.error(`Error: could not ${command} ${file}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import fs from 'fs';
+import { ElementHandle, Page } from 'puppeteer';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Read by the config module on import: the heuristics and element marks need a real browser
+vi.hoisted(() => {
+  process.env.DISABLE_HEURISTICS = 'true';
+  process.env.DISABLE_ELEMENT_MARKS = 'true';
+});
+
+vi.mock('../../src/ai/heuristics.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/ai/heuristics.js')>(),
+  applyInteractionHeuristics: vi.fn().mockResolvedValue(false),
+}));
+
+import { applyInteractionHeuristics } from '../../src/ai/heuristics.js';
+import { executeAction, handlePageInteractions } from '../../src/ai/page-interactions.js';
+import { createMockVisionProvider } from '../../src/ai/providers/mock.js';
+import { config } from '../../src/config.js';
+
+// A newsletter dialog in front of an article, closed by its "Continue reading" button
+const PAGE_WITH_DIALOG = `
+  <main><h1>Article</h1><p>Some content.</p></main>
+  <div id="dialog" role="dialog">
+    <p>Sign up for our newsletter</p>
+    <input id="email" type="email" placeholder="Email">
+    <button id="noop" type="button">Tell me more</button>
+    <button id="continue" type="button">Continue reading</button>
+  </div>
+`;
+
+/**
+ * Wraps the jsdom document in the part of the Puppeteer page API the interaction loop uses, so that it runs without
+ * a browser: scripts are evaluated against the document, and element handles act on its elements
+ * @returns The fake page
+ */
+function createFakePage(): Page {
+  const wrap = (el: Element | null) => el && ({
+    click: async () => (el as HTMLElement).click(),
+    type: async (text: string) => {
+      (el as HTMLInputElement).value += text;
+    },
+    evaluate: async (fn: (el: Element, ...args: unknown[]) => unknown, ...args: unknown[]) => fn(el, ...args),
+    dispose: async () => {},
+    frame: { url: () => document.location.href },
+  } as unknown as ElementHandle<Element>);
+
+  const page = {
+    url: () => document.location.href,
+    frames: () => [page],
+    evaluate: async (fn: (...args: unknown[]) => unknown, ...args: unknown[]) => fn(...args),
+    screenshot: async () => Buffer.from('screenshot').toString('base64'),
+    $: async (selector: string) => wrap(document.querySelector(selector)),
+    $$: async (selector: string) => Array.from(document.querySelectorAll(selector)).map(wrap),
+    $$eval: async (selector: string, fn: (elements: Element[], ...args: unknown[]) => unknown, ...args: unknown[]) =>
+      fn(Array.from(document.querySelectorAll(selector)), ...args),
+    waitForSelector: async (selector: string) => wrap(document.querySelector(selector)),
+  };
+  return page as unknown as Page;
+}
+
+describe('handlePageInteractions', () => {
+  let page: Page;
+
+  beforeAll(() => {
+    // Screenshots of the page may show personal data, so nothing may be written to disk
+    vi.spyOn(fs.promises, 'writeFile').mockResolvedValue();
+    // jsdom has no layout, so every element counts as visible
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 200));
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = PAGE_WITH_DIALOG;
+    document.getElementById('continue')!.addEventListener('click', () => document.getElementById('dialog')!.remove());
+    page = createFakePage();
+  });
+
+  it('runs the scripted action and stops once no overlay remains', async () => {
+    const provider = createMockVisionProvider([
+      { action: 'click', targetSelector: '#continue', reason: 'Close the newsletter dialog' },
+      { action: 'click', targetSelector: '#continue', reason: 'Never reached' },
+    ]);
+
+    const result = await handlePageInteractions(page, 3, provider);
+
+    expect(result.interacted).toBe(true);
+    expect(result.log).toEqual([
+      { step: 1, source: 'vision', action: 'click #continue', reason: 'Close the newsletter dialog', outcome: 'resolved', violation: undefined },
+    ]);
+    expect(document.getElementById('dialog')).toBeNull();
+    expect(fs.promises.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('does not repeat an action that had no effect', async () => {
+    const noop = { action: 'click' as const, targetSelector: '#noop', reason: 'Learn more' };
+    const provider = createMockVisionProvider([noop, noop, noop]);
+
+    const result = await handlePageInteractions(page, 3, provider);
+
+    expect(result.interacted).toBe(false);
+    expect(result.log.map(entry => entry.outcome)).toEqual(['no-effect', 'repeated', 'repeated']);
+  });
+
+  it('blocks actions the action policy forbids', async () => {
+    // jsdom has no innerText, so the policy reads the label
+    document.getElementById('noop')!.setAttribute('aria-label', 'Subscribe');
+    const provider = createMockVisionProvider([
+      { action: 'click', targetSelector: '#noop', reason: 'Subscribe to the newsletter' },
+    ]);
+
+    const result = await handlePageInteractions(page, 1, provider);
+
+    expect(result.log[0]).toMatchObject({ outcome: 'blocked', violation: expect.stringContaining('Subscribe') });
+    expect(document.getElementById('dialog')).not.toBeNull();
+  });
+
+  it('clicks the one element a text target resolves to', async () => {
+    const clicks: string[] = [];
+    document.body.insertAdjacentHTML('beforeend', '<button id="more">Continue reading later</button><button>Later</button><button>Later</button>');
+    document.querySelectorAll('button').forEach(button => button.addEventListener('click', () => clicks.push(button.textContent!)));
+
+    expect(await executeAction(page, { action: 'click', targetText: 'Tell me' })).toBe(true);
+    expect(await executeAction(page, { action: 'click', targetText: 'Later' })).toBe(false);
+    expect(await executeAction(page, { action: 'click', targetText: 'continue   reading' })).toBe(true);
+    expect(clicks).toEqual(['Tell me more', 'Continue reading']);
+  });
+
+  it('checks the element a text target resolves to, and refuses text that names no single element', async () => {
+    document.getElementById('noop')!.setAttribute('aria-label', 'Subscribe');
+    document.body.insertAdjacentHTML('beforeend', '<button>Later</button><button>Later</button>');
+    const provider = createMockVisionProvider([
+      { action: 'click', targetText: 'Tell me', reason: 'Learn more' },
+      { action: 'click', targetText: 'Later', reason: 'Close the dialog' },
+    ]);
+
+    const result = await handlePageInteractions(page, 2, provider);
+
+    expect(result.log.map(entry => entry.violation)).toEqual([
+      'clicking "Subscribe" is not allowed (matches "subscribe")',
+      '"Later" does not identify a single visible element',
+    ]);
+  });
+
+  it('stops a wait action when the operation is aborted', async () => {
+    const start = Date.now();
+
+    await expect(executeAction(page, { action: 'wait', waitTime: 60000 }, { signal: AbortSignal.timeout(50) })).rejects.toThrow();
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('reports typed text by its length only', async () => {
+    const provider = createMockVisionProvider([
+      { action: 'type', targetSelector: '#email', inputText: 'reader@example.com', reason: 'Fill in the email' },
+    ]);
+
+    const result = await handlePageInteractions(page, 1, provider);
+
+    expect((document.getElementById('email') as HTMLInputElement).value).toBe('reader@example.com');
+    expect(result.log[0]?.action).toBe('type #email (18 characters)');
+    expect(JSON.stringify(result.log)).not.toContain('reader@example.com');
+  });
+
+  it('only proposes the first action in a dry run, without running the heuristics', async () => {
+    config.enableHeuristics = true;
+    const provider = createMockVisionProvider([
+      { action: 'click', targetSelector: '#continue', reason: 'Close the newsletter dialog' },
+    ]);
+
+    const result = await handlePageInteractions(page, 3, provider, { dryRun: true }).finally(() => {
+      config.enableHeuristics = false;
+    });
+
+    expect(result.log).toEqual([
+      { step: 1, source: 'vision', action: 'click #continue', reason: 'Close the newsletter dialog', outcome: 'proposed' },
+    ]);
+    expect(applyInteractionHeuristics).not.toHaveBeenCalled();
+    expect(document.getElementById('dialog')).not.toBeNull();
+  });
+});
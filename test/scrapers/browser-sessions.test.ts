@@ -0,0 +1,45 @@
+import { Page } from 'puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Read by the config module on import
+vi.hoisted(() => {
+  process.env.MAX_SESSIONS_PER_CLIENT = '2';
+});
+
+// Sessions borrow pages from the browser pool; these tests only need something to hand out and take back
+vi.mock('../../src/scrapers/browser-pool.js', () => ({
+  acquirePage: vi.fn(async () => ({ on: vi.fn(), isClosed: () => false }) as unknown as Page),
+  releasePage: vi.fn(async () => {}),
+}));
+vi.mock('../../src/scrapers/browser-context.js', () => ({
+  applyBrowserContext: vi.fn(async () => {}),
+}));
+vi.mock('../../src/scrapers/navigation-policy.js', () => ({
+  installNavigationGuard: vi.fn(async () => {}),
+}));
+
+import { closeAllSessions, closeSession, openSession } from '../../src/scrapers/browser-sessions.js';
+import { acquirePage } from '../../src/scrapers/browser-pool.js';
+
+describe('openSession', () => {
+  afterEach(async () => {
+    await closeAllSessions();
+  });
+
+  it('refuses more than MAX_SESSIONS_PER_CLIENT sessions per transport session', async () => {
+    await Promise.all([openSession('client-a'), openSession('client-a')]);
+    vi.mocked(acquirePage).mockClear();
+
+    await expect(openSession('client-a')).rejects.toThrow(/^Too many open browsing sessions: at most 2 per client/);
+    expect(acquirePage).not.toHaveBeenCalled();
+    await expect(openSession('client-b')).resolves.toMatchObject({ transportSessionId: 'client-b' });
+  });
+
+  it('counts sessions still being opened, and frees a slot when one is closed', async () => {
+    const opened = await Promise.allSettled([openSession('client-a'), openSession('client-a'), openSession('client-a')]);
+    expect(opened.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+
+    await closeSession((opened[0] as PromiseFulfilledResult<{ id: string }>).value.id, 'client-a');
+    await expect(openSession('client-a')).resolves.toMatchObject({ transportSessionId: 'client-a' });
+  });
+});
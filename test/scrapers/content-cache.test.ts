@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/scrapers/webpage-scraper.js', () => ({
+  visitWebPage: vi.fn(),
+}));
+vi.mock('../../src/scrapers/guarded-fetch.js', () => ({
+  guardedFetch: vi.fn(),
+}));
+
+import { cachedVisitWebPage } from '../../src/scrapers/content-cache.js';
+import { guardedFetch } from '../../src/scrapers/guarded-fetch.js';
+import { visitWebPage } from '../../src/scrapers/webpage-scraper.js';
+import { config } from '../../src/config.js';
+
+// Every test caches a page of its own; an IP address keeps DNS out of the navigation policy
+let pages = 0;
+
+describe('cachedVisitWebPage', () => {
+  let url: string;
+
+  beforeEach(() => {
+    url = `https://93.184.215.14/page-${++pages}`;
+    vi.mocked(visitWebPage).mockResolvedValue({ data: '# Cached page', metadata: { title: 'Cached page' } });
+  });
+
+  afterEach(() => {
+    config.deniedHosts = [];
+    config.robotsPolicy = 'off';
+  });
+
+  it('serves a fresh entry from the cache', async () => {
+    await cachedVisitWebPage({ url });
+    vi.mocked(visitWebPage).mockClear();
+    const result = await cachedVisitWebPage({ url });
+
+    expect(result).toMatchObject({ data: '# Cached page', cache: { status: 'hit' } });
+    expect(visitWebPage).not.toHaveBeenCalled();
+  });
+
+  it('does not serve a cached page the navigation policy now forbids', async () => {
+    await cachedVisitWebPage({ url });
+    config.deniedHosts = ['93.184.215.14'];
+
+    const result = await cachedVisitWebPage({ url });
+
+    expect(result.data).toBeUndefined();
+    expect(result.error?.message).toMatch(/^Blocked by navigation policy/);
+  });
+
+  it('does not serve a cached page robots.txt now disallows', async () => {
+    await cachedVisitWebPage({ url });
+    config.robotsPolicy = 'enforce';
+    vi.mocked(guardedFetch).mockResolvedValueOnce({ status: 200, headers: {}, body: 'User-agent: *\nDisallow: /' });
+
+    const result = await cachedVisitWebPage({ url });
+
+    expect(result.data).toBeUndefined();
+    expect(result.error?.message).toMatch(/^Blocked by robots policy/);
+  });
+});
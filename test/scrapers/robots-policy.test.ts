@@ -0,0 +1,247 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HTTPResponse, Page } from 'puppeteer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Read by the config module on import; the fixture servers listen on loopback, which only these tests may reach
+vi.hoisted(() => {
+  process.env.ROBOTS_POLICY = 'warn';
+  process.env.ROBOTS_USER_AGENT = 'PuppeteerVisionMCP';
+  process.env.ROBOTS_MAX_CRAWL_DELAY = '300';
+  process.env.ALLOW_PRIVATE_NETWORKS = 'true';
+});
+
+import { applyRobotsPolicy, checkIndexingDirectives } from '../../src/scrapers/robots-policy.js';
+import { config } from '../../src/config.js';
+
+// Fixture servers started by the current test
+const servers: http.Server[] = [];
+
+/**
+ * Starts a fixture server on 127.0.0.1; robots.txt files are cached per origin, so every server is a new origin
+ * @param handler Answers each request
+ * @returns The origin of the server, and the requests it received
+ */
+async function serve(handler: http.RequestListener): Promise<{ origin: string; requests: http.IncomingMessage[] }> {
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(request);
+    handler(request, response);
+  });
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+/**
+ * Serves a robots.txt and tells which paths it allows
+ * @param robotsTxt The robots.txt content
+ * @param paths The paths to check, with their query
+ * @param status The status of the robots.txt response
+ * @returns Whether each path is allowed, in order
+ */
+async function checkPaths(robotsTxt: string, paths: string[], status: number = 200): Promise<boolean[]> {
+  const { origin } = await serve((_request, response) => {
+    response.writeHead(status, { 'content-type': 'text/plain' }).end(robotsTxt);
+  });
+
+  const allowed: boolean[] = [];
+  for (const path of paths) {
+    allowed.push((await applyRobotsPolicy(`${origin}${path}`)).length === 0);
+  }
+  return allowed;
+}
+
+/**
+ * Measures how long a call takes
+ * @param fn The call
+ * @returns The elapsed time in milliseconds
+ */
+async function timed(fn: () => Promise<unknown>): Promise<number> {
+  const start = Date.now();
+  await fn();
+  return Date.now() - start;
+}
+
+afterEach(async () => {
+  config.robotsPolicy = 'warn';
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('robots.txt rules', () => {
+  it('matches * anywhere in a pattern', async () => {
+    const robotsTxt = 'User-agent: *\nDisallow: /*.pdf\nDisallow: /private*/drafts';
+
+    expect(await checkPaths(robotsTxt, ['/docs/guide.pdf', '/docs/guide.html', '/private-area/drafts/1', '/private/published']))
+      .toEqual([false, true, false, true]);
+  });
+
+  it('anchors patterns ending in $ at the end of the path', async () => {
+    const robotsTxt = 'User-agent: *\nDisallow: /*.php$\nDisallow: /exact$';
+
+    expect(await checkPaths(robotsTxt, ['/index.php', '/index.php?page=2', '/exact', '/exact/more']))
+      .toEqual([false, true, false, true]);
+  });
+
+  it('applies the longest matching pattern', async () => {
+    const robotsTxt = 'User-agent: *\nDisallow: /shop/\nAllow: /shop/public/\nDisallow: /shop/public/drafts';
+
+    expect(await checkPaths(robotsTxt, ['/shop/cart', '/shop/public/item', '/shop/public/drafts/1', '/about']))
+      .toEqual([false, true, false, true]);
+  });
+
+  it('prefers Allow over Disallow when patterns are equally long', async () => {
+    const robotsTxt = 'User-agent: *\nDisallow: /page\nAllow: /page\nDisallow: /other';
+
+    expect(await checkPaths(robotsTxt, ['/page', '/other'])).toEqual([true, false]);
+  });
+
+  it('treats an empty Disallow as allowing everything', async () => {
+    expect(await checkPaths('User-agent: *\nDisallow:', ['/', '/anything'])).toEqual([true, true]);
+  });
+
+  it('uses the group of our user agent instead of the * group', async () => {
+    const robotsTxt = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      '# Consecutive user-agent lines share one group',
+      'User-agent: OtherBot',
+      'User-agent: puppeteervisionmcp',
+      'Disallow: /admin',
+      '',
+      '# Only the full product token counts',
+      'User-agent: Puppeteer',
+      'Disallow: /home',
+    ].join('\r\n');
+
+    expect(await checkPaths(robotsTxt, ['/home', '/admin/users'])).toEqual([true, false]);
+  });
+});
+
+describe('fetching robots.txt', () => {
+  it('allows everything when robots.txt is missing and nothing when the server fails', async () => {
+    expect(await checkPaths('Not found', ['/page'], 404)).toEqual([true]);
+    expect(await checkPaths('Forbidden', ['/page'], 403)).toEqual([true]);
+    expect(await checkPaths('Unavailable', ['/page'], 503)).toEqual([false]);
+  });
+
+  it('allows nothing when the server cannot be reached', async () => {
+    const { origin } = await serve(() => {});
+    await new Promise(resolve => servers.pop()!.close(resolve));
+
+    expect(await applyRobotsPolicy(`${origin}/page`)).toEqual([expect.stringContaining('robots.txt disallows')]);
+  });
+
+  it('fetches robots.txt once per origin, as our user agent', async () => {
+    const { origin, requests } = await serve((_request, response) => {
+      response.writeHead(200).end('User-agent: *\nDisallow: /private');
+    });
+
+    await applyRobotsPolicy(`${origin}/one`);
+    await applyRobotsPolicy(`${origin}/two`);
+    await applyRobotsPolicy(`${origin}/private/three`);
+
+    expect(requests.map(request => request.url)).toEqual(['/robots.txt']);
+    expect(requests[0]!.headers['user-agent']).toBe('PuppeteerVisionMCP');
+  });
+
+  it('follows redirects to the robots.txt file', async () => {
+    const { origin } = await serve((request, response) => {
+      if (request.url === '/robots.txt') {
+        response.writeHead(301, { location: '/static/robots.txt' }).end();
+      } else {
+        response.writeHead(200).end('User-agent: *\nDisallow: /admin');
+      }
+    });
+
+    expect(await applyRobotsPolicy(`${origin}/admin`)).toHaveLength(1);
+  });
+
+  it('fetches robots.txt through the proxy of the page', async () => {
+    const { origin: proxyOrigin, requests } = await serve((_request, response) => {
+      response.writeHead(200).end('User-agent: *\nDisallow: /');
+    });
+    const proxy = { server: proxyOrigin, username: 'user', password: 'secret' };
+
+    expect(await applyRobotsPolicy('http://proxied.example/page', proxy)).toHaveLength(1);
+    expect(requests[0]!.url).toBe('http://proxied.example/robots.txt');
+    expect(requests[0]!.headers['proxy-authorization']).toBe(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+  });
+});
+
+describe('crawl-delay', () => {
+  it('spaces out requests by at most ROBOTS_MAX_CRAWL_DELAY', async () => {
+    const { origin } = await serve((_request, response) => {
+      response.writeHead(200).end('User-agent: *\nCrawl-delay: 3600');
+    });
+
+    expect(await timed(() => applyRobotsPolicy(`${origin}/one`))).toBeLessThan(250);
+    const second = await timed(() => applyRobotsPolicy(`${origin}/two`));
+    expect(second).toBeGreaterThanOrEqual(250);
+    expect(second).toBeLessThan(1000);
+  });
+
+  it('stops waiting when the request is aborted, and gives its turn back', async () => {
+    const { origin } = await serve((_request, response) => {
+      response.writeHead(200).end('User-agent: *\nCrawl-delay: 3600');
+    });
+    await applyRobotsPolicy(`${origin}/one`);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    await expect(applyRobotsPolicy(`${origin}/two`, undefined, { signal: controller.signal })).rejects.toThrow(/abort/i);
+
+    // Only the rest of the first request's delay is left, not a second one
+    expect(await timed(() => applyRobotsPolicy(`${origin}/three`))).toBeLessThan(300);
+  });
+
+  it('does not wait when no request follows', async () => {
+    const { origin } = await serve((_request, response) => {
+      response.writeHead(200).end('User-agent: *\nCrawl-delay: 3600');
+    });
+    await applyRobotsPolicy(`${origin}/one`);
+
+    expect(await timed(() => applyRobotsPolicy(`${origin}/two`, undefined, { waitForCrawlDelay: false }))).toBeLessThan(250);
+  });
+});
+
+describe('checkIndexingDirectives', () => {
+  /**
+   * Builds the parts of a loaded page the check reads
+   * @param metas The name and content of each meta tag
+   * @param headers The headers of the main document response
+   * @returns The page and its response
+   */
+  function loadedPage(metas: Record<string, string>, headers: Record<string, string> = {}): [Page, HTTPResponse] {
+    const elements = Object.entries(metas).map(([name, content]) => ({
+      getAttribute: (attribute: string) => attribute === 'name' ? name : content,
+    }));
+    const page = {
+      url: () => 'https://news.example/article',
+      $$eval: async (_selector: string, fn: (elements: unknown[], ...args: unknown[]) => unknown, ...args: unknown[]) => fn(elements, ...args),
+    };
+    return [page as unknown as Page, { headers: () => headers } as unknown as HTTPResponse];
+  }
+
+  it('reports noindex and noarchive from the X-Robots-Tag header and meta tags', async () => {
+    expect(await checkIndexingDirectives(...loadedPage({}, { 'x-robots-tag': 'noarchive, nofollow' })))
+      .toEqual(['https://news.example/article opts out of indexing or archiving (noarchive)']);
+    expect(await checkIndexingDirectives(...loadedPage({ robots: 'noindex' })))
+      .toEqual(['https://news.example/article opts out of indexing or archiving (noindex)']);
+    expect(await checkIndexingDirectives(...loadedPage({ PuppeteerVisionMCP: 'none' })))
+      .toEqual(['https://news.example/article opts out of indexing or archiving (none)']);
+  });
+
+  it('ignores directives for other user agents', async () => {
+    expect(await checkIndexingDirectives(...loadedPage({ googlebot: 'noindex' }, { 'x-robots-tag': 'otherbot: noarchive' })))
+      .toEqual([]);
+  });
+
+  it('fails when the policy is enforced', async () => {
+    config.robotsPolicy = 'enforce';
+
+    await expect(checkIndexingDirectives(...loadedPage({ robots: 'noindex, nofollow' })))
+      .rejects.toThrow(/^Blocked by robots policy: .* \(noindex\)$/);
+  });
+});
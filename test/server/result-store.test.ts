@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { getStoredChunk, storeChunkedResult } from '../../src/server/result-store.js';
+
+const chunks = [
+  { index: 0, markdown: '# Part one', headings: [{ heading: 'Part one', level: 1 }], estimatedTokens: 3 },
+  { index: 1, markdown: '# Part two', headings: [{ heading: 'Part two', level: 1 }], estimatedTokens: 3 },
+];
+
+describe('result store', () => {
+  it('returns the chunks of a result to the transport session that stored it', () => {
+    const handle = storeChunkedResult(chunks, { url: 'https://example.com/' }, 'session-a');
+
+    expect(getStoredChunk(handle, 1, 'session-a')).toEqual({ chunk: chunks[1], totalChunks: 2, meta: { url: 'https://example.com/' } });
+  });
+
+  it('treats the handle of another transport session as unknown', () => {
+    const handle = storeChunkedResult(chunks, {}, 'session-a');
+
+    expect(() => getStoredChunk(handle, 1, 'session-b')).toThrow(/^Unknown or expired result handle/);
+    expect(() => getStoredChunk(handle, 1)).toThrow(/^Unknown or expired result handle/);
+  });
+
+  it('keeps results of the stdio transport, which has no session id, among themselves', () => {
+    const handle = storeChunkedResult(chunks, {});
+
+    expect(getStoredChunk(handle, 0).chunk).toBe(chunks[0]);
+    expect(() => getStoredChunk(handle, 0, 'session-a')).toThrow(/^Unknown or expired result handle/);
+  });
+});